@@ -0,0 +1,99 @@
+/**
+ * Diffusion benchmark. Runs the engine with no particles, so each step is
+ * food application plus diffusion, and reports ms/step per resolution and
+ * particle size (the particle size sets the diffusion radius).
+ *
+ *   npm run bench -- [--steps 20] [--reference] [--budget <ms>]
+ *
+ * --reference also times the original full 2D disc convolution for
+ * comparison; --budget exits non-zero if any case is slower than <ms>/step.
+ */
+import { parseArgs } from 'node:util';
+import { SimulationEngine } from '../src/lib/SimulationEngine';
+import { defaultParams } from '../src/lib/defaults';
+import { SimulationParams } from '../src/lib/types';
+
+const RESOLUTIONS = [
+  [640, 360],
+  [1280, 720],
+  [1920, 1080]
+] as const;
+const PARTICLE_SIZES = [1, 3, 5];
+
+// The disc convolution SimulationEngine used before the separable kernel
+function referenceDiffuse(field: Float32Array, width: number, height: number, params: SimulationParams) {
+  const newField = new Float32Array(width * height);
+  const radius = Math.max(1, Math.floor(params.particleSize));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (dx * dx + dy * dy <= radius * radius) {
+            const nx = (x + dx + width) % width;
+            const ny = (y + dy + height) % height;
+            sum += field[ny * width + nx];
+            count++;
+          }
+        }
+      }
+      const idx = y * width + x;
+      newField[idx] = ((sum / count) * params.diffusionRate + field[idx] * (1 - params.diffusionRate)) * (1 - params.decayRate);
+    }
+  }
+  return newField;
+}
+
+function time(steps: number, step: () => void): number {
+  step(); // warm up
+  const startedAt = performance.now();
+  for (let i = 0; i < steps; i++) {
+    step();
+  }
+  return (performance.now() - startedAt) / steps;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      steps: { type: 'string' },
+      reference: { type: 'boolean' },
+      budget: { type: 'string' }
+    }
+  });
+
+  const steps = values.steps ? Number(values.steps) : 20;
+  const budget = values.budget ? Number(values.budget) : Infinity;
+  let overBudget = false;
+
+  console.log(`resolution   size  ms/step${values.reference ? '  reference  speedup' : ''}`);
+
+  for (const [width, height] of RESOLUTIONS) {
+    for (const particleSize of PARTICLE_SIZES) {
+      const params: SimulationParams = { ...defaultParams, particleSize, particleCount: 0, seed: 1 };
+      const engine = new SimulationEngine(width, height, params);
+      engine.addFoodSource(width / 2, height / 2, 20, 1);
+
+      const msPerStep = time(steps, () => engine.update());
+      overBudget ||= msPerStep > budget;
+
+      let line = `${`${width}x${height}`.padEnd(11)}  ${String(particleSize).padStart(4)}  ${msPerStep.toFixed(2).padStart(7)}`;
+      if (values.reference) {
+        let field: Float32Array = engine.getState().chemicalField.slice();
+        const referenceMs = time(Math.max(1, Math.floor(steps / 10)), () => {
+          field = referenceDiffuse(field, width, height, params);
+        });
+        line += `  ${referenceMs.toFixed(2).padStart(9)}  ${(referenceMs / msPerStep).toFixed(1).padStart(6)}x`;
+      }
+      console.log(line);
+    }
+  }
+
+  if (overBudget) {
+    console.error(`At least one case exceeded the budget of ${budget} ms/step`);
+    process.exit(1);
+  }
+}
+
+main();
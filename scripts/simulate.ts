@@ -0,0 +1,197 @@
+/**
+ * Headless simulation runner.
+ *
+ *   npm run simulate -- --config run.json --steps 2000 --seed 42 --out results/run
+ *
+ * The config file holds `{ params, foodParams, foodSources, walls }`; every
+ * part is optional. Params are read like saved settings, with missing fields
+ * falling back to the app defaults, but numbers aren't held to the slider
+ * ranges, so runs can use far more particles than the app offers. Food
+ * sources and walls without a radius use the food params, like the brush does;
+ * a food source with `points` is laid down as a stroke along them.
+ *
+ * Every run also writes a snapshot, which the app can open and `--resume`
+ * continues exactly; a resumed run takes its size, params, food and walls
+ * from the snapshot instead.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { deflateSync, gzipSync, gunzipSync } from 'node:zlib';
+import { SimulationEngine } from '../src/lib/SimulationEngine';
+import { SETTINGS_VERSION, migrateSettings } from '../src/lib/settingsSchema';
+import { hexToRgb } from '../src/lib/color';
+import { encodePng } from '../src/lib/png';
+import { speciesColors } from '../src/lib/species';
+import { colorizeField } from '../src/lib/fieldImage';
+import { foodSourceOptions } from '../src/lib/food';
+import { encodeSnapshot, decodeSnapshot, SimulationSnapshot, SNAPSHOT_VERSION, SNAPSHOT_EXTENSION } from '../src/lib/snapshot';
+import { SimulationParams, FoodParams, FoodPoint, ParticleBuffers, ChemicalField, PARTICLE_STUCK } from '../src/lib/types';
+
+interface RunConfig {
+  params?: Partial<SimulationParams>;
+  foodParams?: Partial<FoodParams>;
+  foodSources?: Array<{ x: number; y: number; radius?: number; strength?: number; points?: FoodPoint[] }>;
+  walls?: Array<{ x: number; y: number; radius?: number }>;
+}
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --config <file>   JSON file with { params, foodParams, foodSources, walls }
+  --resume <file>   Continue from a snapshot; ignores --config, --seed and the size
+  --steps <n>       Number of steps to run (default 1000)
+  --seed <n>        Seed, overrides the one in the config
+  --width <px>      Field width (default 800)
+  --height <px>     Field height (default 600)
+  --out <dir>       Output directory (default ./simulation-output)
+  --help            Show this message`;
+
+function parseInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function renderField(
+  field: ChemicalField,
+  channels: number,
+  obstacles: Uint8Array,
+  particles: ParticleBuffers,
+  width: number,
+  height: number,
+  params: SimulationParams
+) {
+  const pixels = new Uint8Array(width * height * 3);
+  const moldColors = speciesColors(params, channels).map(color => hexToRgb(color.moldColor));
+  colorizeField(field, channels, obstacles, params, pixels, 3);
+
+  for (let i = 0; i < particles.count; i++) {
+    const x = Math.floor(particles.x[i]);
+    const y = Math.floor(particles.y[i]);
+    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+    const idx = (y * width + x) * 3;
+    const moldColor = moldColors[particles.species[i]];
+    pixels[idx] = moldColor.r;
+    pixels[idx + 1] = moldColor.g;
+    pixels[idx + 2] = moldColor.b;
+  }
+
+  return pixels;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string' },
+      resume: { type: 'string' },
+      steps: { type: 'string' },
+      seed: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config: RunConfig = values.config
+    ? JSON.parse(await readFile(values.config, 'utf8'))
+    : {};
+
+  const resumed: SimulationSnapshot | null = values.resume
+    ? await decodeSnapshot(await readFile(values.resume), data => gunzipSync(data))
+    : null;
+
+  const steps = parseInteger('steps', values.steps, 1000);
+  const width = resumed?.width ?? parseInteger('width', values.width, 800);
+  const height = resumed?.height ?? parseInteger('height', values.height, 600);
+  const outDir = values.out ?? 'simulation-output';
+
+  const settings = resumed ?? migrateSettings(config.params, config.foodParams, SETTINGS_VERSION, { clamp: false });
+  const params: SimulationParams = { ...settings.params, isPaused: false };
+  if (!resumed) params.seed = parseInteger('seed', values.seed, params.seed);
+  const foodParams: FoodParams = settings.foodParams;
+
+  const engine = new SimulationEngine(width, height, params);
+  if (resumed) {
+    engine.restoreSnapshot({ ...resumed, params });
+  } else {
+    (config.walls ?? []).forEach(wall => {
+      engine.paintObstacle(wall.x, wall.y, wall.radius ?? foodParams.size);
+    });
+    (config.foodSources ?? []).forEach(food => {
+      engine.addFoodSource(food.x, food.y, food.radius ?? foodParams.size, food.strength ?? foodParams.strength, {
+        ...foodSourceOptions(foodParams),
+        points: food.points
+      });
+    });
+  }
+
+  const startedAt = performance.now();
+  for (let step = 0; step < steps; step++) {
+    engine.update();
+  }
+  const elapsedMs = performance.now() - startedAt;
+
+  const { particles, chemicalField, channels } = engine.getState();
+
+  const particleData = new Float32Array(particles.count * 5);
+  for (let i = 0; i < particles.count; i++) {
+    particleData[i * 5] = particles.x[i];
+    particleData[i * 5 + 1] = particles.y[i];
+    particleData[i * 5 + 2] = particles.angle[i];
+    particleData[i * 5 + 3] = particles.flags[i] & PARTICLE_STUCK ? 1 : 0;
+    particleData[i * 5 + 4] = particles.species[i];
+  }
+
+  const png = await encodePng(
+    { width, height, channels: 3, data: renderField(chemicalField, channels, engine.getObstacles().mask, particles, width, height, params) },
+    data => deflateSync(data)
+  );
+  const state = engine.getSnapshot();
+  const snapshot = await encodeSnapshot(
+    { ...state, version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), foodParams },
+    data => gzipSync(data)
+  );
+
+  await mkdir(outDir, { recursive: true });
+  await Promise.all([
+    writeFile(join(outDir, 'field.png'), png),
+    writeFile(join(outDir, 'field.f32'), new Uint8Array(chemicalField.buffer, chemicalField.byteOffset, chemicalField.byteLength)),
+    writeFile(join(outDir, 'particles.f32'), new Uint8Array(particleData.buffer)),
+    writeFile(join(outDir, `snapshot${SNAPSHOT_EXTENSION}`), snapshot),
+    writeFile(join(outDir, 'run.json'), JSON.stringify({
+      width,
+      height,
+      channels,
+      steps,
+      totalSteps: state.step,
+      seed: params.seed,
+      elapsedMs: Math.round(elapsedMs),
+      params,
+      foodParams,
+      foodSources: engine.getFoodSources(),
+      files: {
+        'field.f32': 'float32 little-endian, one width * height row-major plane per species, then the food plane',
+        'particles.f32': 'float32 little-endian, [x, y, angle, isStuck, species] per particle',
+        [`snapshot${SNAPSHOT_EXTENSION}`]: 'complete engine state, for the app or --resume'
+      }
+    }, null, 2))
+  ]);
+
+  console.log(`Ran ${steps} steps (seed ${params.seed}) in ${(elapsedMs / 1000).toFixed(1)}s, wrote ${outDir}`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  console.error(USAGE);
+  process.exit(1);
+});
@@ -1,115 +1,187 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { SimulationCanvas } from './components/SimulationCanvas';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { SimulationCanvas, SimulationCanvasHandle } from './components/SimulationCanvas';
 import { Controls } from './components/Controls';
 import { Toolbar } from './components/Toolbar';
 import { Navbar } from './components/Navbar';
-import { SimulationParams, FoodParams } from './lib/types';
-import { Dialog } from './components/Dialog';
-import { supabase } from './lib/supabase';
-import { User } from '@supabase/supabase-js';
-
-const defaultParams: SimulationParams = {
-  particleCount: 5000,
-  moveSpeed: 1.0,
-  turnSpeed: 0.1,
-  sensorAngle: Math.PI / 4,
-  sensorDistance: 10,
-  diffusionRate: 0.1,
-  decayRate: 0.1,
-  chemicalDepositRate: 0.05,
-  alignmentForce: 0.3,
-  cohesionForce: 0.0,
-  separationForce: 0.5,
-  perceptionRadius: 30,
-  fieldColor: '#808080',
-  moldColor: '#000000',
-  particleSize: 1,
-  backgroundColor: '#ffffff',
-  isPaused: false,
-  stickingProbability: 1.0,
-  releaseProbability: 0
-};
-
-const defaultFoodParams: FoodParams = {
-  size: 15,
-  strength: 1.0,
-  opacity: 1.0,
-  color: '#00ff00'
-};
+import { SimulationParams, StoredParams, FoodParams, Tool } from './lib/types';
+import { SavePresetDialog } from './components/SavePresetDialog';
+import { GalleryDialog } from './components/GalleryDialog';
+import { PresetHistoryDialog } from './components/PresetHistoryDialog';
+import { ExportImageDialog } from './components/ExportImageDialog';
+import { hasBackend, useCurrentUser } from './lib/auth';
+import { X } from 'lucide-react';
+import { defaultParams, defaultFoodParams } from './lib/defaults';
+import { SimulationSnapshot, SNAPSHOT_VERSION } from './lib/snapshot';
+import { downloadSettings, readSettingsFile } from './lib/settingsFile';
+import { settingsStores, PresetDetails, SettingsStore, SavedPreset } from './lib/settingsStore';
+import { createShareUrl, decodeShareLink, shareLinkPayload } from './lib/shareLink';
+import { RecordingOptions, RECORDING_EXTENSIONS } from './lib/recorder';
+import { downloadBlob } from './lib/download';
+import { exportStill, StillExport } from './lib/stillExport';
 
 function App() {
   const [params, setParams] = useState<SimulationParams>(defaultParams);
   const [foodParams, setFoodParams] = useState<FoodParams>(defaultFoodParams);
-  const [selectedTool, setSelectedTool] = useState<'attract' | 'erase' | 'pin'>('attract');
-  const [restartFn, setRestartFn] = useState<(() => void) | null>(null);
-  const [clearFoodFn, setClearFoodFn] = useState<(() => void) | null>(null);
-  const [spawnFn, setSpawnFn] = useState<((x: number, y: number) => void) | null>(null);
+  const [selectedTool, setSelectedTool] = useState<Tool>('attract');
+  const [showFoodOverlay, setShowFoodOverlay] = useState(true);
+  const [hasFoodMap, setHasFoodMap] = useState(false);
+  const canvasRef = useRef<SimulationCanvasHandle>(null);
   const [isDark, setIsDark] = useState(false);
   const [isControlDrawerOpen, setIsControlDrawerOpen] = useState(true);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [saveThumbnail, setSaveThumbnail] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<{ store: SettingsStore; preset: SavedPreset } | null>(null);
+  const currentUser = useCurrentUser();
   const [settingName, setSettingName] = useState('');
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+  const [exportFieldSize, setExportFieldSize] = useState<{ width: number; height: number } | null>(null);
 
-  useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setCurrentUser(session?.user ?? null);
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setCurrentUser(session?.user ?? null);
-    });
+  const handleReset = useCallback(() => {
+    canvasRef.current?.restart();
+  }, []);
 
-    return () => subscription.unsubscribe();
+  const handleClearFood = useCallback(() => {
+    canvasRef.current?.clearFood();
+    setHasFoodMap(false);
   }, []);
 
-  const handleReset = useCallback(() => {
-    if (restartFn) {
-      restartFn();
+  const handleLoadFoodMap = useCallback(async (file: File) => {
+    try {
+      const image = await createImageBitmap(file);
+      canvasRef.current?.loadFoodImage(image);
+      setHasFoodMap(true);
+    } catch (err) {
+      console.error('Failed to load food map:', err);
     }
-  }, [restartFn]);
+  }, []);
 
-  const handleClearFood = useCallback(() => {
-    if (clearFoodFn) {
-      clearFoodFn();
-    }
-  }, [clearFoodFn]);
+  const handleClearFoodMap = useCallback(() => {
+    canvasRef.current?.loadFoodImage(null);
+    setHasFoodMap(false);
+  }, []);
+
+  const handleClearWalls = useCallback(() => {
+    canvasRef.current?.clearWalls();
+  }, []);
 
   const handleSpawnStickyParticle = useCallback(() => {
-    if (spawnFn && selectedTool === 'pin') {
+    if (selectedTool === 'pin') {
       // Spawn in the center of the screen
       const x = window.innerWidth / 2;
       const y = (window.innerHeight - 56) / 2; // Subtract header height
-      spawnFn(x, y);
+      canvasRef.current?.spawnStickyParticle(x, y);
     }
-  }, [spawnFn, selectedTool]);
+  }, [selectedTool]);
 
-  const handleLoadSettings = useCallback(async (newParams: SimulationParams, newFoodParams: FoodParams) => {
-    setParams(newParams);
+  const handleLoadSettings = useCallback(async (newParams: StoredParams, newFoodParams: FoodParams) => {
+    // Loaded settings don't carry UI state, so the run stays paused or running
+    const restarted = canvasRef.current?.restartWith(newParams);
+    setParams(prev => restarted ?? { ...newParams, isPaused: prev.isPaused });
     setFoodParams(newFoodParams);
-    if (restartFn) {
-      restartFn();
+  }, []);
+
+  const handleCaptureSnapshot = useCallback(async (): Promise<SimulationSnapshot | null> => {
+    const state = await canvasRef.current?.captureSnapshot();
+    if (!state) return null;
+    return { ...state, version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), foodParams };
+  }, [foodParams]);
+
+  // The run continues paused or not, as it is now
+  const handleRestoreSnapshot = useCallback((snapshot: SimulationSnapshot) => {
+    const restoredParams = { ...snapshot.params, isPaused: params.isPaused };
+    canvasRef.current?.restoreSnapshot({ ...snapshot, params: restoredParams });
+    setParams(restoredParams);
+    setFoodParams(snapshot.foodParams);
+    setHasFoodMap(!!snapshot.foodMap);
+  }, [params.isPaused]);
+
+  const handleSimulationError = useCallback((err: Error) => {
+    console.error('Simulation failed:', err);
+    setSettingsError(`The simulation hit an error: ${err.message}`);
+  }, []);
+
+  const handleExportSettings = useCallback(() => {
+    downloadSettings(`field-conditions-${params.seed}`, params, foodParams);
+  }, [params, foodParams]);
+
+  const handleImportSettings = useCallback(async (file: File) => {
+    try {
+      const settings = await readSettingsFile(file);
+      setSettingsError(null);
+      handleLoadSettings(settings.params, settings.foodParams);
+    } catch (err) {
+      console.error('Failed to import settings:', err);
+      setSettingsError(err instanceof Error ? err.message : 'Failed to import settings');
     }
-  }, [restartFn]);
+  }, [handleLoadSettings]);
 
-  const handleSave = useCallback(async (name: string) => {
-    if (!currentUser) return;
-    
+  const handleCopyShareLink = useCallback(async () => {
     try {
-      const { error } = await supabase
-        .from('simulation_settings')
-        .insert({
-          name,
-          params,
-          food_params: foodParams,
-          user_id: currentUser.id
-        });
-
-      if (error) throw error;
+      const url = await createShareUrl(params, foodParams, canvasRef.current?.getFoodSources() ?? []);
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+      setSettingsError('Could not copy the share link to the clipboard');
+      return false;
+    }
+  }, [params, foodParams]);
+
+  // A shared link overrides the defaults once on startup
+  useEffect(() => {
+    const payload = shareLinkPayload(window.location.hash);
+    if (!payload) return;
+
+    decodeShareLink(payload)
+      .then(({ params: sharedParams, foodParams: sharedFoodParams, foodSources }) => {
+        handleLoadSettings(sharedParams, sharedFoodParams);
+        foodSources.forEach(food => canvasRef.current?.addFoodSource(food.x, food.y, food.radius, food.strength, food.options));
+      })
+      .catch(err => {
+        console.error('Failed to open shared link:', err);
+        setSettingsError(err instanceof Error ? err.message : 'Failed to open shared link');
+      });
+  }, [handleLoadSettings]);
+
+  const handleStartRecording = useCallback(async (options: RecordingOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setRecordingSeconds(0);
+    try {
+      // Whole seconds, so the toolbar only re-renders once a second
+      const clip = await canvas.record(options, seconds => setRecordingSeconds(Math.floor(seconds)));
+      downloadBlob(clip, `field-conditions-${params.seed}${RECORDING_EXTENSIONS[options.format]}`);
+    } catch (err) {
+      console.error('Failed to record video:', err);
+      setSettingsError(err instanceof Error ? `Failed to record video: ${err.message}` : 'Failed to record video');
+    } finally {
+      setRecordingSeconds(null);
+    }
+  }, [params.seed]);
+
+  const handleExportStill = useCallback(async (request: StillExport) => {
+    const snapshot = await canvasRef.current?.captureSnapshot();
+    if (!snapshot) throw new Error('The simulation has not started yet');
+    await exportStill(snapshot, request, `field-conditions-${snapshot.params.seed}-step-${snapshot.step}`);
+  }, []);
+
+  const handleOpenSaveDialog = useCallback(() => {
+    // Taken now, so the thumbnail shows what was on screen when saving started
+    setSaveThumbnail(canvasRef.current?.captureThumbnail() ?? null);
+    setShowSaveDialog(true);
+  }, []);
+
+  const handleSave = useCallback(async (name: string, details: PresetDetails) => {
+    // Saved to the account when signed in, otherwise kept in this browser
+    const [store] = settingsStores(currentUser?.id ?? null);
+    try {
+      await store.save(name, params, foodParams, details);
       setShowSaveDialog(false);
     } catch (err) {
       console.error('Failed to save settings:', err);
+      setSettingsError(err instanceof Error ? err.message : 'Failed to save settings');
     }
   }, [params, foodParams, currentUser]);
 
@@ -132,18 +204,19 @@ function App() {
         onThemeToggle={() => setIsDark(!isDark)}
         isControlDrawerOpen={isControlDrawerOpen}
         onControlDrawerToggle={() => setIsControlDrawerOpen(!isControlDrawerOpen)}
+        onGalleryOpen={hasBackend ? () => setShowGallery(true) : undefined}
       />
 
       <div className="absolute inset-0 pt-14">
         <SimulationCanvas
+          ref={canvasRef}
           width={window.innerWidth}
           height={window.innerHeight - 56}
           params={params}
           foodParams={foodParams}
           selectedTool={selectedTool}
-          onRestart={setRestartFn}
-          onClearFood={setClearFoodFn}
-          onSpawn={setSpawnFn}
+          showFoodOverlay={showFoodOverlay}
+          onError={handleSimulationError}
         />
       </div>
 
@@ -161,29 +234,78 @@ function App() {
       )}
 
       <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
+        {settingsError && (
+          <div className="mb-2 flex items-start gap-2 max-w-md p-3 text-sm text-red-600 dark:text-red-400 bg-white/95 dark:bg-gray-900/95 rounded-lg shadow-lg border border-red-200 dark:border-red-900">
+            <span className="flex-1 break-words">{settingsError}</span>
+            <button
+              onClick={() => setSettingsError(null)}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <div className="bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm rounded-lg shadow-lg p-2 border border-gray-200 dark:border-gray-800">
           <Toolbar
             selectedTool={selectedTool}
             onSelectTool={setSelectedTool}
             onClearFood={handleClearFood}
+            onClearWalls={handleClearWalls}
+            showFoodOverlay={showFoodOverlay}
+            onFoodOverlayToggle={() => setShowFoodOverlay(!showFoodOverlay)}
+            hasFoodMap={hasFoodMap}
+            onLoadFoodMap={handleLoadFoodMap}
+            onClearFoodMap={handleClearFoodMap}
             isPaused={params.isPaused}
             onPauseToggle={() => setParams(prev => ({ ...prev, isPaused: !prev.isPaused }))}
             onReset={handleReset}
-            onSave={() => setShowSaveDialog(true)}
+            onSave={handleOpenSaveDialog}
             onLoad={handleLoadSettings}
-            isAuthenticated={!!currentUser}
+            currentParams={params}
+            currentFoodParams={foodParams}
+            onShowPresetHistory={(store, preset) => setHistoryTarget({ store, preset })}
+            onExportSettings={handleExportSettings}
+            onImportSettings={handleImportSettings}
+            onCopyShareLink={handleCopyShareLink}
+            onCaptureSnapshot={handleCaptureSnapshot}
+            onRestoreSnapshot={handleRestoreSnapshot}
+            recordingSeconds={recordingSeconds}
+            onStartRecording={handleStartRecording}
+            onStopRecording={() => canvasRef.current?.stopRecording()}
+            getFieldSize={() => canvasRef.current?.getFieldSize() ?? null}
+            onExportImage={() => setExportFieldSize(canvasRef.current?.getFieldSize() ?? null)}
+            userId={currentUser?.id ?? null}
             onSpawnStickyParticle={handleSpawnStickyParticle}
           />
         </div>
       </div>
 
-      <Dialog
+      <SavePresetDialog
         isOpen={showSaveDialog}
         onClose={() => setShowSaveDialog(false)}
         onConfirm={handleSave}
-        title="Save Settings"
-        description="Enter a name for your settings"
-        confirmLabel="Save"
+        thumbnail={saveThumbnail}
+        canPublish={currentUser !== null}
+      />
+
+      <GalleryDialog
+        isOpen={showGallery}
+        onClose={() => setShowGallery(false)}
+        onLoad={handleLoadSettings}
+        userId={currentUser?.id ?? null}
+      />
+
+      <ExportImageDialog
+        fieldSize={exportFieldSize}
+        onClose={() => setExportFieldSize(null)}
+        onExport={handleExportStill}
+      />
+
+      <PresetHistoryDialog
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onLoad={handleLoadSettings}
       />
     </div>
   );
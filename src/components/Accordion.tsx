@@ -27,7 +27,7 @@ export function AccordionItem({ title, children, defaultOpen = false }: Accordio
       </button>
       <div
         className={`overflow-hidden transition-all duration-200 ease-in-out ${
-          isOpen ? 'max-h-96 opacity-100 mb-4' : 'max-h-0 opacity-0'
+          isOpen ? 'max-h-[48rem] opacity-100 mb-4' : 'max-h-0 opacity-0'
         }`}
       >
         {children}
@@ -1,7 +1,22 @@
-import React from 'react';
-import { SimulationParams, FoodParams } from '../lib/types';
+import React, { useState, useEffect } from 'react';
+import { SimulationParams, SpeciesParams, FoodParams, BoundaryMode, BrushMode } from '../lib/types';
 import { Slider } from './Slider';
+import { Select } from './Select';
+import { Toggle } from './Toggle';
 import { AccordionItem } from './Accordion';
+import { SpeciesTabs } from './SpeciesTabs';
+import { Dices } from 'lucide-react';
+import { randomSeed } from '../lib/random';
+import {
+  speciesCount,
+  getSpecies,
+  updateSpecies,
+  addSpecies,
+  removeSpecies,
+  interactionWeight,
+  setInteraction,
+  speciesColors
+} from '../lib/species';
 
 interface Props {
   params: SimulationParams;
@@ -10,11 +25,79 @@ interface Props {
   onFoodParamsChange: (params: FoodParams) => void;
 }
 
+/**
+ * The seed is typed into a draft and only applied on blur or Enter, since
+ * every new seed restarts the run. Anything that isn't a seed is dropped.
+ */
+function SeedInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const seed = Number(draft);
+    if (draft.trim() !== '' && Number.isInteger(seed) && seed >= 0 && seed >>> 0 !== value) {
+      onChange(seed >>> 0);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <label className="text-xs text-gray-600 dark:text-gray-400">Seed</label>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+          className="w-28 px-2 py-1 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-md"
+        />
+        <button
+          onClick={() => onChange(randomSeed())}
+          className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title="Random Seed"
+        >
+          <Dices className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function Controls({ params, foodParams, onChange, onFoodParamsChange }: Props) {
+  const [selectedSpecies, setSelectedSpecies] = useState(0);
+  const count = speciesCount(params);
+  const selected = Math.min(selectedSpecies, count - 1);
+  const species = getSpecies(params, selected);
+
   const handleChange = (key: keyof SimulationParams) => (value: number | boolean | string) => {
     onChange({ ...params, [key]: value });
   };
 
+  // Settings that belong to the species picked in the tabs
+  const handleSpeciesChange = (key: keyof SpeciesParams) => (value: number | string) => {
+    onChange(updateSpecies(params, selected, { [key]: value }));
+  };
+
+  const handleAddSpecies = () => {
+    onChange(addSpecies(params));
+    setSelectedSpecies(count);
+  };
+
+  const handleRemoveSpecies = (index: number) => {
+    onChange(removeSpecies(params, index));
+    setSelectedSpecies(index - 1);
+  };
+
   const handleFoodParamChange = (key: keyof FoodParams) => (value: number | boolean | string) => {
     onFoodParamsChange({ ...foodParams, [key]: value });
   };
@@ -40,21 +123,33 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
     <div className="space-y-4">
       <div className="space-y-2">
         <h3 className="font-semibold text-xs uppercase tracking-wider text-gray-600 dark:text-gray-400">Simulation Controls</h3>
+        <SpeciesTabs
+          count={count}
+          selected={selected}
+          colors={speciesColors(params, count).map(color => color.moldColor)}
+          onSelect={setSelectedSpecies}
+          onAdd={handleAddSpecies}
+          onRemove={handleRemoveSpecies}
+        />
         <Slider
           label="Particle Count"
-          value={params.particleCount}
+          value={species.particleCount}
           min={0}
           max={10000}
           step={50}
-          onChange={handleChange('particleCount')}
+          onChange={handleSpeciesChange('particleCount')}
         />
         <Slider
           label="Move Speed"
-          value={params.moveSpeed}
+          value={species.moveSpeed}
           min={0}
           max={3.0}
           step={0.05}
-          onChange={handleChange('moveSpeed')}
+          onChange={handleSpeciesChange('moveSpeed')}
+        />
+        <SeedInput
+          value={params.seed}
+          onChange={handleChange('seed')}
         />
       </div>
 
@@ -69,13 +164,23 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
             />
             <ColorPicker
               label="Particle Color"
-              value={params.moldColor}
-              onChange={handleChange('moldColor')}
+              value={species.moldColor}
+              onChange={handleSpeciesChange('moldColor')}
             />
             <ColorPicker
               label="Trail Color"
-              value={params.fieldColor}
-              onChange={handleChange('fieldColor')}
+              value={species.fieldColor}
+              onChange={handleSpeciesChange('fieldColor')}
+            />
+            <ColorPicker
+              label="Repellent Color"
+              value={params.repellentColor}
+              onChange={handleChange('repellentColor')}
+            />
+            <ColorPicker
+              label="Wall Color"
+              value={params.wallColor}
+              onChange={handleChange('wallColor')}
             />
           </div>
 
@@ -95,11 +200,11 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
             <h4 className="text-xs text-gray-600 dark:text-gray-400">Trails</h4>
             <Slider
               label="Chemical Deposit"
-              value={params.chemicalDepositRate}
+              value={species.chemicalDepositRate}
               min={0}
               max={0.2}
               step={0.005}
-              onChange={handleChange('chemicalDepositRate')}
+              onChange={handleSpeciesChange('chemicalDepositRate')}
             />
             <Slider
               label="Diffusion Rate"
@@ -125,27 +230,59 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
         <div className="space-y-2">
           <Slider
             label="Turn Speed"
-            value={params.turnSpeed}
+            value={species.turnSpeed}
             min={0}
             max={0.5}
             step={0.005}
-            onChange={handleChange('turnSpeed')}
+            onChange={handleSpeciesChange('turnSpeed')}
           />
           <Slider
             label="Sensor Angle"
-            value={params.sensorAngle}
+            value={species.sensorAngle}
             min={0}
             max={Math.PI}
             step={0.05}
-            onChange={handleChange('sensorAngle')}
+            onChange={handleSpeciesChange('sensorAngle')}
           />
           <Slider
             label="Sensor Distance"
-            value={params.sensorDistance}
+            value={species.sensorDistance}
             min={0}
             max={50}
             step={0.5}
-            onChange={handleChange('sensorDistance')}
+            onChange={handleSpeciesChange('sensorDistance')}
+          />
+          {count > 1 && (
+            <div className="space-y-2 pt-2">
+              <h4 className="text-xs text-gray-600 dark:text-gray-400">Response to Trails</h4>
+              {Array.from({ length: count }, (_, other) => (
+                <Slider
+                  key={other}
+                  label={other === selected ? 'Own Trail' : `Species ${other + 1} Trail`}
+                  value={interactionWeight(params, selected, other)}
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  onChange={value => onChange(setInteraction(params, selected, other, value))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </AccordionItem>
+
+      <AccordionItem title="Boundaries">
+        <div className="space-y-2">
+          <Select<BoundaryMode>
+            label="Edge Behavior"
+            value={params.boundaryMode}
+            options={[
+              { value: 'wrap', label: 'Wrap' },
+              { value: 'reflect', label: 'Reflect' },
+              { value: 'absorb', label: 'Absorb' },
+              { value: 'wall', label: 'Solid Wall' }
+            ]}
+            onChange={handleChange('boundaryMode')}
           />
         </div>
       </AccordionItem>
@@ -205,11 +342,36 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
             step={0.01}
             onChange={handleChange('releaseProbability')}
           />
+          <Slider
+            label="Release Half-Life (steps)"
+            value={params.releaseAgeHalfLife}
+            min={0}
+            max={1000}
+            step={10}
+            onChange={handleChange('releaseAgeHalfLife')}
+          />
+          <Slider
+            label="Neighbor Bonding"
+            value={params.releaseNeighborFactor}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={handleChange('releaseNeighborFactor')}
+          />
         </div>
       </AccordionItem>
 
       <AccordionItem title="Food Settings">
         <div className="space-y-2">
+          <Select<BrushMode>
+            label="Brush"
+            value={foodParams.brushMode}
+            options={[
+              { value: 'disc', label: 'Discs' },
+              { value: 'stroke', label: 'Single Stroke' }
+            ]}
+            onChange={handleFoodParamChange('brushMode')}
+          />
           <Slider
             label="Size"
             value={foodParams.size}
@@ -239,6 +401,60 @@ export function Controls({ params, foodParams, onChange, onFoodParamsChange }: P
             value={foodParams.color}
             onChange={handleFoodParamChange('color')}
           />
+          <Toggle
+            label="Consumable"
+            checked={foodParams.consumable}
+            onChange={handleFoodParamChange('consumable')}
+          />
+          {foodParams.consumable && (
+            <>
+              <Slider
+                label="Reservoir"
+                value={foodParams.capacity}
+                min={10}
+                max={5000}
+                step={10}
+                onChange={handleFoodParamChange('capacity')}
+              />
+              <Slider
+                label="Consumption Rate"
+                value={foodParams.consumptionRate}
+                min={0.1}
+                max={10}
+                step={0.1}
+                onChange={handleFoodParamChange('consumptionRate')}
+              />
+              <Slider
+                label="Regrow Time (steps, 0 = vanish)"
+                value={foodParams.regrowTime}
+                min={0}
+                max={2000}
+                step={10}
+                onChange={handleFoodParamChange('regrowTime')}
+              />
+            </>
+          )}
+          <Slider
+            label="Image Map Threshold"
+            value={foodParams.mapThreshold}
+            min={0}
+            max={0.95}
+            step={0.01}
+            onChange={handleFoodParamChange('mapThreshold')}
+          />
+          <Slider
+            label="Image Map Strength"
+            value={foodParams.mapStrength}
+            min={-5}
+            max={5}
+            step={0.05}
+            onChange={handleFoodParamChange('mapStrength')}
+          />
+          <Toggle
+            label="Invert Image Map"
+            checked={foodParams.mapInvert}
+            onChange={handleFoodParamChange('mapInvert')}
+          />
         </div>
       </AccordionItem>
     </div>
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { StillExport } from '../lib/stillExport';
+import { stillSize, MAX_STILL_PIXELS } from '../lib/stillImage';
+
+interface Props {
+  /** Size of the engine's grid, or null when closed. */
+  fieldSize: { width: number; height: number } | null;
+  onClose: () => void;
+  onExport: (request: StillExport) => Promise<void>;
+}
+
+type Format = StillExport['kind'];
+type SizeMode = 'scale' | 'fit';
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-transparent';
+const checkboxClass = 'rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500';
+
+export function ExportImageDialog({ fieldSize, onClose, onExport }: Props) {
+  const [format, setFormat] = useState<Format>('image');
+  const [sizeMode, setSizeMode] = useState<SizeMode>('scale');
+  const [scale, setScale] = useState(4);
+  const [fitWidth, setFitWidth] = useState(6000);
+  const [fitHeight, setFitHeight] = useState(4000);
+  const [particles, setParticles] = useState(true);
+  const [transparent, setTransparent] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Options are kept between exports; only the last error is dropped
+  useEffect(() => {
+    if (fieldSize) setError(null);
+  }, [fieldSize]);
+
+  if (!fieldSize) return null;
+
+  // Fitting keeps the field's aspect ratio, so one side may come out shorter than asked
+  const effectiveScale = sizeMode === 'scale'
+    ? scale
+    : Math.min(fitWidth / fieldSize.width, fitHeight / fieldSize.height);
+  const output = stillSize(fieldSize.width, fieldSize.height, effectiveScale);
+  const megapixels = output.width * output.height / 1e6;
+  const isTooLarge = output.width * output.height > MAX_STILL_PIXELS;
+  const isValid = format !== 'image' || (effectiveScale > 0 && !isTooLarge);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format === 'image'
+        ? { kind: 'image', options: { scale: effectiveScale, particles, transparent } }
+        : { kind: format });
+      onClose();
+    } catch (err) {
+      console.error('Failed to export image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export image');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(e.target.valueAsNumber)}
+      className={inputClass}
+      aria-label={label}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={onClose}>
+      <div className="relative w-full max-w-md bg-white dark:bg-gray-900 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Export Image</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <select value={format} onChange={(e) => setFormat(e.target.value as Format)} className={inputClass}>
+              <option value="image">Image (PNG)</option>
+              <option value="field16">Field data, 16-bit grayscale PNG</option>
+              <option value="fieldFloat">Field data, raw float32</option>
+            </select>
+
+            {format === 'image' ? (
+              <>
+                <div className="flex items-center gap-3">
+                  <select value={sizeMode} onChange={(e) => setSizeMode(e.target.value as SizeMode)} className={`${inputClass} w-32 flex-none`}>
+                    <option value="scale">Scale</option>
+                    <option value="fit">Fit within</option>
+                  </select>
+                  {sizeMode === 'scale' ? (
+                    numberInput(scale, setScale, 'Scale')
+                  ) : (
+                    <>
+                      {numberInput(fitWidth, setFitWidth, 'Width')}
+                      <span className="text-sm text-gray-500">×</span>
+                      {numberInput(fitHeight, setFitHeight, 'Height')}
+                    </>
+                  )}
+                </div>
+                <p className={`text-sm ${isTooLarge ? 'text-red-500' : 'text-gray-600 dark:text-gray-400'}`}>
+                  {output.width} × {output.height} px ({megapixels.toFixed(1)} MP)
+                  {isTooLarge && `, more than the ${MAX_STILL_PIXELS / 1e6} MP limit`}
+                </p>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={particles} onChange={(e) => setParticles(e.target.checked)} className={checkboxClass} />
+                  Draw particles
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} className={checkboxClass} />
+                  Transparent background
+                </label>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {format === 'field16'
+                  ? `${fieldSize.width} × ${fieldSize.height} cells, one plane per species and then the food plane, stacked top to bottom. Values from −1 to 1 map onto 0–65535, so an empty cell is 32768.`
+                  : `Little-endian float32 values, one ${fieldSize.width} × ${fieldSize.height} row-major plane per species, then one of food. The size is in the file name.`}
+              </p>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!isValid || isExporting}
+              >
+                {isExporting ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
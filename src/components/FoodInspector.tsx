@@ -0,0 +1,62 @@
+import { Trash2, X } from 'lucide-react';
+import { FoodSource, FoodSourceChanges } from '../lib/types';
+import { Slider } from './Slider';
+
+interface Props {
+  source: FoodSource;
+  onChange: (changes: FoodSourceChanges) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+export function FoodInspector({ source, onChange, onDelete, onClose }: Props) {
+  const isStroke = !!source.points && source.points.length > 1;
+
+  return (
+    <div className="w-60 space-y-2 p-3 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-600 dark:text-gray-400">
+          {isStroke ? 'Food Stroke' : 'Food Source'}
+        </h4>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onDelete}
+            className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Delete Source"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Deselect"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <Slider
+        label="Radius"
+        value={source.radius}
+        min={1}
+        max={100}
+        step={0.5}
+        onChange={radius => onChange({ radius })}
+      />
+      <Slider
+        label="Strength"
+        value={source.strength}
+        min={-5}
+        max={5}
+        step={0.05}
+        onChange={strength => onChange({ strength })}
+      />
+      {source.reservoir && (
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>Reservoir</span>
+          <span>{Math.round(source.reservoir.level)} / {source.reservoir.capacity}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, Heart, GitFork } from 'lucide-react';
+import { StoredParams, FoodParams } from '../lib/types';
+import { GalleryPreset, GallerySort, listGallery, setLiked, forkPreset } from '../lib/gallery';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onLoad: (params: StoredParams, foodParams: FoodParams) => void;
+  /** Signed-in user; without one the gallery can be browsed and forked into this browser, but not liked. */
+  userId: string | null;
+}
+
+export function GalleryDialog({ isOpen, onClose, onLoad, userId }: Props) {
+  const [presets, setPresets] = useState<GalleryPreset[]>([]);
+  const [sort, setSort] = useState<GallerySort>('popular');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadGallery = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPresets(await listGallery(sort, userId));
+    } catch (err) {
+      console.error('Failed to load gallery:', err);
+      setError('Failed to load gallery');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sort, userId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      loadGallery();
+    }
+  }, [isOpen, loadGallery]);
+
+  const handleLike = async (preset: GalleryPreset) => {
+    if (!userId) return;
+    const liked = !preset.likedByMe;
+    // Update right away and roll back if the request fails
+    const update = (likedByMe: boolean, delta: number) => setPresets(prev => prev.map(p =>
+      p.id === preset.id ? { ...p, likedByMe, likes: p.likes + delta } : p
+    ));
+    update(liked, liked ? 1 : -1);
+    try {
+      await setLiked(preset.id, userId, liked);
+    } catch (err) {
+      console.error('Failed to update like:', err);
+      update(!liked, liked ? -1 : 1);
+    }
+  };
+
+  const handleFork = async (preset: GalleryPreset) => {
+    setError(null);
+    try {
+      await forkPreset(preset, userId);
+      setMessage(`Copied "${preset.name}" to your ${userId ? 'account' : 'browser'}`);
+    } catch (err) {
+      console.error('Failed to fork preset:', err);
+      setError('Failed to fork preset');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const sortClass = (value: GallerySort) => `px-3 py-1 text-sm rounded-md transition-colors ${
+    sort === value
+      ? 'bg-indigo-600 text-white dark:bg-indigo-500'
+      : 'text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={onClose}>
+      <div
+        className="relative w-full max-w-4xl max-h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Community Gallery</h3>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setSort('popular')} className={sortClass('popular')}>Popular</button>
+            <button onClick={() => setSort('recent')} className={sortClass('recent')}>Recent</button>
+            <button
+              onClick={onClose}
+              className="ml-2 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {(error || message) && (
+          <p className={`px-4 pt-3 text-sm ${error ? 'text-red-500' : 'text-gray-600 dark:text-gray-400'}`}>{error ?? message}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading...</div>
+          ) : presets.length === 0 ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">No public presets yet</div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {presets.map(preset => (
+                <div key={preset.id} className="flex flex-col rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+                  <button
+                    onClick={() => {
+                      onLoad(preset.params, preset.foodParams);
+                      onClose();
+                    }}
+                    className="aspect-[4/3] bg-gray-100 dark:bg-gray-800"
+                    title="Load these settings"
+                  >
+                    {preset.thumbnail && (
+                      <img src={preset.thumbnail} alt="" className="w-full h-full object-cover" loading="lazy" />
+                    )}
+                  </button>
+                  <div className="flex-1 p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">{preset.name}</h4>
+                      {preset.userId === userId && (
+                        <span className="text-xs text-gray-400">Yours</span>
+                      )}
+                    </div>
+                    {preset.description && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">{preset.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between px-3 pb-3">
+                    <button
+                      onClick={() => handleLike(preset)}
+                      disabled={!userId}
+                      className={`flex items-center gap-1 text-sm transition-colors disabled:cursor-not-allowed ${
+                        preset.likedByMe ? 'text-red-500' : 'text-gray-500 hover:text-red-500 dark:text-gray-400'
+                      }`}
+                      title={userId ? (preset.likedByMe ? 'Unlike' : 'Like') : 'Sign in to like presets'}
+                    >
+                      <Heart className={`w-4 h-4 ${preset.likedByMe ? 'fill-current' : ''}`} />
+                      {preset.likes}
+                    </button>
+                    <button
+                      onClick={() => handleFork(preset)}
+                      className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 transition-colors"
+                      title="Copy into your saved settings"
+                    >
+                      <GitFork className="w-4 h-4" />
+                      Fork
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,55 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-import { SimulationParams, FoodParams } from '../lib/types';
-import { Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { SimulationParams, StoredParams, FoodParams } from '../lib/types';
+import { SettingsStore, SavedPreset, settingsStores } from '../lib/settingsStore';
+import { PresetQuery, PresetFacets, PresetSort, normalizeTags } from '../lib/presetQuery';
+import { Trash2, Pencil, Save, History, Search } from 'lucide-react';
 
-interface SavedSetting {
-  id: string;
-  name: string;
-  params: SimulationParams;
-  food_params: FoodParams;
-  created_at: string;
+interface StoreSection {
+  store: SettingsStore;
+  presets: SavedPreset[];
 }
 
 interface Props {
   isOpen: boolean;
-  onLoad: (params: SimulationParams, foodParams: FoodParams) => void;
+  onLoad: (params: StoredParams, foodParams: FoodParams) => void;
   onOpenChange: (isOpen: boolean) => void;
+  /** Signed-in user; without one only the presets saved in this browser are listed. */
+  userId: string | null;
+  /** What a preset is overwritten with. */
+  currentParams: SimulationParams;
+  currentFoodParams: FoodParams;
+  onShowHistory: (store: SettingsStore, preset: SavedPreset) => void;
 }
 
-export function LoadSettingsPopover({ isOpen, onLoad, onOpenChange }: Props) {
-  const [savedSettings, setSavedSettings] = useState<SavedSetting[]>([]);
+interface EditState {
+  id: string;
+  name: string;
+  folder: string;
+  /** Comma-separated, as typed. */
+  tags: string;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-transparent';
+const selectClass = 'flex-1 min-w-0 px-1 py-1 text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-md';
+
+export function LoadSettingsPopover({
+  isOpen,
+  onLoad,
+  onOpenChange,
+  userId,
+  currentParams,
+  currentFoodParams,
+  onShowHistory
+}: Props) {
+  const [sections, setSections] = useState<StoreSection[]>([]);
+  const [facets, setFacets] = useState<PresetFacets>({ folders: [], tags: [] });
+  const [searchText, setSearchText] = useState('');
+  const [query, setQuery] = useState<PresetQuery>({ sort: 'recent' });
+  const [editing, setEditing] = useState<EditState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [errors, setErrors] = useState<string[]>([]);
   const popoverRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (isOpen) {
-      loadSavedSettings();
-    }
-  }, [isOpen]);
-
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
@@ -44,76 +66,268 @@ export function LoadSettingsPopover({ isOpen, onLoad, onOpenChange }: Props) {
     }
   }, [isOpen, onOpenChange]);
 
-  async function loadSavedSettings() {
+  // Search once typing pauses rather than on every key
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(prev => ({ ...prev, search: searchText })), 250);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const loadSavedSettings = useCallback(async () => {
+    setIsLoading(true);
+    // A store that fails to load is left out rather than hiding the others
+    const failures: string[] = [];
+    const loaded = await Promise.all(settingsStores(userId).map(async store => {
+      try {
+        const [presets, storeFacets] = await Promise.all([store.list(query), store.facets()]);
+        return [{ store, presets, facets: storeFacets }];
+      } catch (err) {
+        console.error(`Failed to load saved settings (${store.label}):`, err);
+        failures.push(err instanceof Error ? err.message : `Failed to load ${store.label} settings`);
+        return [];
+      }
+    }));
+    setErrors(failures);
+    const flat = loaded.flat();
+    setSections(flat);
+    setFacets({
+      folders: [...new Set(flat.flatMap(section => section.facets.folders))].sort(),
+      tags: [...new Set(flat.flatMap(section => section.facets.tags))].sort()
+    });
+    setIsLoading(false);
+  }, [userId, query]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSavedSettings();
+    }
+  }, [isOpen, loadSavedSettings]);
+
+  function handleLoad(store: SettingsStore, preset: SavedPreset) {
+    onLoad(preset.params, preset.foodParams);
+    onOpenChange(false);
+    store.markUsed(preset.id).catch(err => console.error('Failed to record preset use:', err));
+  }
+
+  async function handleDelete(e: React.MouseEvent, store: SettingsStore, id: string) {
+    e.stopPropagation();
     try {
-      setIsLoading(true);
-      const { data, error } = await supabase
-        .from('simulation_settings')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setSavedSettings(data || []);
+      await store.remove(id);
+      loadSavedSettings();
     } catch (err) {
-      console.error('Failed to load saved settings:', err);
-    } finally {
-      setIsLoading(false);
+      console.error('Failed to delete settings:', err);
     }
   }
 
-  async function handleDelete(e: React.MouseEvent, id: string) {
+  async function handleOverwrite(e: React.MouseEvent, store: SettingsStore, id: string) {
     e.stopPropagation();
     try {
-      const { error } = await supabase
-        .from('simulation_settings')
-        .delete()
-        .eq('id', id);
+      await store.update(id, { params: currentParams, foodParams: currentFoodParams });
+      loadSavedSettings();
+    } catch (err) {
+      console.error('Failed to overwrite settings:', err);
+    }
+  }
 
-      if (error) throw error;
+  async function handleEdit(e: React.FormEvent, store: SettingsStore) {
+    e.preventDefault();
+    if (!editing) return;
+    const { id, name, folder, tags } = editing;
+    setEditing(null);
+    if (!name.trim()) return;
+    try {
+      await store.update(id, { name: name.trim(), folder, tags: normalizeTags(tags) });
       loadSavedSettings();
     } catch (err) {
-      console.error('Failed to delete settings:', err);
+      console.error('Failed to update settings:', err);
     }
   }
 
   if (!isOpen) return null;
 
+  const actionClass = 'opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors';
+
+  const renderEditForm = (store: SettingsStore, edit: EditState) => (
+    <form
+      key={edit.id}
+      onSubmit={(e) => handleEdit(e, store)}
+      onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+      className="p-1 space-y-1"
+    >
+      <input
+        type="text"
+        value={edit.name}
+        onChange={(e) => setEditing({ ...edit, name: e.target.value })}
+        placeholder="Name"
+        className={inputClass}
+        autoFocus
+      />
+      <input
+        type="text"
+        value={edit.folder}
+        onChange={(e) => setEditing({ ...edit, folder: e.target.value })}
+        placeholder="Folder"
+        list="preset-folders"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={edit.tags}
+        onChange={(e) => setEditing({ ...edit, tags: e.target.value })}
+        placeholder="Tags, comma separated"
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          className="px-2 py-1 text-xs text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!edit.name.trim()}
+          className="px-2 py-1 text-xs text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 rounded-md transition-colors disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderRow = (store: SettingsStore, preset: SavedPreset) => editing?.id === preset.id ? renderEditForm(store, editing) : (
+    <div
+      key={preset.id}
+      className="flex items-center gap-2 p-2 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-md group cursor-pointer"
+      onClick={() => handleLoad(store, preset)}
+    >
+      {preset.thumbnail ? (
+        <img src={preset.thumbnail} alt="" className="w-10 h-8 flex-shrink-0 object-cover rounded" loading="lazy" />
+      ) : (
+        <div className="w-10 h-8 flex-shrink-0 rounded bg-gray-100 dark:bg-gray-800" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-gray-700 dark:text-gray-300 truncate" title={preset.description || undefined}>
+          {preset.name}
+        </div>
+        {(preset.folder || (preset.tags && preset.tags.length > 0)) && (
+          <div className="text-xs text-gray-400 truncate">
+            {[preset.folder, ...(preset.tags ?? []).map(tag => `#${tag}`)].filter(Boolean).join(' ')}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setEditing({ id: preset.id, name: preset.name, folder: preset.folder ?? '', tags: (preset.tags ?? []).join(', ') });
+        }}
+        className={actionClass}
+        title="Edit name, folder and tags"
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+      <button
+        onClick={(e) => handleOverwrite(e, store, preset.id)}
+        className={actionClass}
+        title="Overwrite with current settings"
+      >
+        <Save className="w-4 h-4" />
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onShowHistory(store, preset);
+          onOpenChange(false);
+        }}
+        className={actionClass}
+        title="History"
+      >
+        <History className="w-4 h-4" />
+      </button>
+      <button
+        onClick={(e) => handleDelete(e, store, preset.id)}
+        className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+        title="Delete settings"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  const sectionTitle = (title: string) => sections.length > 1 && (
+    <h4 className="px-2 pt-2 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">{title}</h4>
+  );
+
+  const isFiltered = Boolean(query.search || query.tag || query.folder !== undefined);
+
   return (
-    <div 
+    <div
       ref={popoverRef}
-      className="absolute bottom-full right-0 mb-2 w-64 bg-white dark:bg-gray-900 rounded-lg shadow-lg border border-gray-200 dark:border-gray-800 overflow-hidden z-50"
+      className="absolute bottom-full right-0 mb-2 w-80 bg-white dark:bg-gray-900 rounded-lg shadow-lg border border-gray-200 dark:border-gray-800 overflow-hidden z-50"
     >
-      <div className="max-h-64 overflow-y-auto">
-        {isLoading ? (
+      <div className="p-2 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search name and description..."
+            className={`${inputClass} pl-8`}
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <select
+            value={query.folder ?? '*'}
+            onChange={(e) => setQuery(prev => ({ ...prev, folder: e.target.value === '*' ? undefined : e.target.value }))}
+            className={selectClass}
+            title="Folder"
+          >
+            <option value="*">All folders</option>
+            <option value="">No folder</option>
+            {facets.folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+          </select>
+          <select
+            value={query.tag ?? ''}
+            onChange={(e) => setQuery(prev => ({ ...prev, tag: e.target.value || undefined }))}
+            className={selectClass}
+            title="Tag"
+          >
+            <option value="">All tags</option>
+            {facets.tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+          </select>
+          <select
+            value={query.sort}
+            onChange={(e) => setQuery(prev => ({ ...prev, sort: e.target.value as PresetSort }))}
+            className={selectClass}
+            title="Sort"
+          >
+            <option value="recent">Newest</option>
+            <option value="name">Name</option>
+            <option value="lastUsed">Last used</option>
+          </select>
+        </div>
+        <datalist id="preset-folders">
+          {facets.folders.map(folder => <option key={folder} value={folder} />)}
+        </datalist>
+      </div>
+      {errors.map(error => <p key={error} className="px-3 pt-2 text-sm text-red-500">{error}</p>)}
+      <div className="max-h-80 overflow-y-auto">
+        {isLoading && sections.length === 0 ? (
           <div className="p-4 text-sm text-gray-600 dark:text-gray-400">Loading...</div>
-        ) : savedSettings.length === 0 ? (
-          <div className="p-4 text-sm text-gray-600 dark:text-gray-400">No saved settings</div>
+        ) : sections.every(section => section.presets.length === 0) ? (
+          <div className="p-4 text-sm text-gray-600 dark:text-gray-400">{isFiltered ? 'No matching settings' : 'No saved settings'}</div>
         ) : (
           <div className="p-1">
-            {savedSettings.map((setting) => (
-              <div
-                key={setting.id}
-                className="flex items-center justify-between p-2 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-md group cursor-pointer"
-                onClick={() => {
-                  onLoad(setting.params, setting.food_params);
-                  onOpenChange(false);
-                }}
-              >
-                <span className="flex-1 text-sm text-gray-700 dark:text-gray-300 truncate">
-                  {setting.name}
-                </span>
-                <button
-                  onClick={(e) => handleDelete(e, setting.id)}
-                  className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                  title="Delete settings"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </div>
+            {sections.map(({ store, presets }) => presets.length > 0 && (
+              <React.Fragment key={store.kind}>
+                {sectionTitle(store.label)}
+                {presets.map(preset => renderRow(store, preset))}
+              </React.Fragment>
             ))}
           </div>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
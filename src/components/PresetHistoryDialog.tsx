@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { StoredParams, FoodParams } from '../lib/types';
+import { SettingsStore, SavedPreset, PresetVersion } from '../lib/settingsStore';
+import { diffSettings, formatSettingValue } from '../lib/settingsDiff';
+
+interface Props {
+  /** The preset whose history is shown, or null when closed. */
+  target: { store: SettingsStore; preset: SavedPreset } | null;
+  onClose: () => void;
+  onLoad: (params: StoredParams, foodParams: FoodParams) => void;
+}
+
+const CURRENT = 'current';
+
+export function PresetHistoryDialog({ target, onClose, onLoad }: Props) {
+  const [versions, setVersions] = useState<PresetVersion[]>([]);
+  const [fromId, setFromId] = useState<string>(CURRENT);
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!target) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { store, preset } = target;
+      const history = await store.history(preset.id);
+      // The preset as it is now heads the list, so every version can be compared with it
+      const current: PresetVersion = {
+        id: CURRENT,
+        savedAt: preset.updatedAt ?? preset.createdAt,
+        name: preset.name,
+        params: preset.params,
+        foodParams: preset.foodParams
+      };
+      setVersions([current, ...history]);
+      setFromId(history[0]?.id ?? CURRENT);
+      setToId(CURRENT);
+    } catch (err) {
+      console.error('Failed to load history:', err);
+      setError('Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  if (!target) return null;
+
+  const from = versions.find(version => version.id === fromId);
+  const to = versions.find(version => version.id === toId);
+  const changes = from && to ? diffSettings(from, to) : [];
+
+  const handleRevert = async (version: PresetVersion) => {
+    setError(null);
+    try {
+      // Reverting is an overwrite too, so the current settings stay in the history
+      await target.store.update(target.preset.id, { params: version.params, foodParams: version.foodParams });
+      onLoad(version.params, version.foodParams);
+      onClose();
+    } catch (err) {
+      console.error('Failed to revert settings:', err);
+      setError('Failed to revert settings');
+    }
+  };
+
+  const label = (version: PresetVersion) =>
+    `${version.id === CURRENT ? 'Current' : new Date(version.savedAt).toLocaleString()}${version.name !== target.preset.name ? ` (${version.name})` : ''}`;
+
+  const selectClass = 'flex-1 min-w-0 px-2 py-1 text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-md';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={onClose}>
+      <div
+        className="relative w-full max-w-2xl max-h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">History of {target.preset.name}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="px-4 pt-3 text-sm text-red-500">{error}</p>}
+
+        {isLoading ? (
+          <div className="p-4 text-sm text-gray-600 dark:text-gray-400">Loading...</div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col sm:flex-row">
+            <div className="sm:w-64 max-h-48 sm:max-h-none overflow-y-auto p-1 border-b sm:border-b-0 sm:border-r border-gray-200 dark:border-gray-800">
+              {versions.map(version => (
+                <div
+                  key={version.id}
+                  className={`flex items-center justify-between p-2 rounded-md group cursor-pointer ${
+                    version.id === fromId ? 'bg-indigo-50 dark:bg-indigo-950' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                  onClick={() => setFromId(version.id)}
+                >
+                  <span className="flex-1 text-sm text-gray-700 dark:text-gray-300 truncate">{label(version)}</span>
+                  {version.id !== CURRENT && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRevert(version);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"
+                      title="Revert to this version"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center gap-2 p-2 border-b border-gray-200 dark:border-gray-800">
+                <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                  {versions.map(version => <option key={version.id} value={version.id}>{label(version)}</option>)}
+                </select>
+                <span className="text-sm text-gray-500">→</span>
+                <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                  {versions.map(version => <option key={version.id} value={version.id}>{label(version)}</option>)}
+                </select>
+              </div>
+              <div className="flex-1 overflow-y-auto p-2">
+                {versions.length === 1 ? (
+                  <div className="p-2 text-sm text-gray-600 dark:text-gray-400">No earlier versions</div>
+                ) : changes.length === 0 ? (
+                  <div className="p-2 text-sm text-gray-600 dark:text-gray-400">No differences</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.path} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                          <td className="py-1 pr-2 font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{change.path}</td>
+                          <td className="py-1 px-2 text-red-600 dark:text-red-400 break-all">{formatSettingValue(change.before)}</td>
+                          <td className="py-1 pl-2 text-green-600 dark:text-green-400 break-all">{formatSettingValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+              {from && from.id !== CURRENT && (
+                <div className="flex justify-end gap-3 p-2 border-t border-gray-200 dark:border-gray-800">
+                  <button
+                    onClick={() => {
+                      onLoad(from.params, from.foodParams);
+                      onClose();
+                    }}
+                    className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+                  >
+                    Load Without Reverting
+                  </button>
+                  <button
+                    onClick={() => handleRevert(from)}
+                    className="px-3 py-1.5 text-sm text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 rounded-md transition-colors"
+                  >
+                    Revert to This Version
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
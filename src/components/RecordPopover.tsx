@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef } from 'react';
+import { Video } from 'lucide-react';
+import { Select } from './Select';
+import { RecordingOptions, RecordingFormat, defaultRecordingOptions, canRecordWebm } from '../lib/recorder';
+
+interface Props {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onStart: (options: RecordingOptions) => void;
+  /** Size of the canvas being recorded, which the resolutions are scaled from. */
+  getFieldSize: () => { width: number; height: number } | null;
+}
+
+const FPS_OPTIONS = [10, 15, 24, 30, 60];
+const STEP_OPTIONS = [1, 2, 4, 8, 16, 32];
+const SCALE_OPTIONS = [0.25, 0.5, 1];
+const DURATION_OPTIONS = [3, 5, 10, 20, 30, 60];
+
+const numberOptions = (values: number[], label: (value: number) => string) =>
+  values.map(value => ({ value: String(value), label: label(value) }));
+
+export function RecordPopover({ isOpen, onOpenChange, onStart, getFieldSize }: Props) {
+  // Kept between recordings, so the next clip starts from the same options
+  const [options, setOptions] = useState<RecordingOptions>(() =>
+    canRecordWebm() ? defaultRecordingOptions : { ...defaultRecordingOptions, format: 'gif', scale: 0.5 }
+  );
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        onOpenChange(false);
+      }
+    }
+
+    if (isOpen) {
+      // Small delay to prevent immediate closing
+      setTimeout(() => {
+        document.addEventListener('mousedown', handleClickOutside);
+      }, 100);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen, onOpenChange]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<RecordingOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  // Read on opening; the field only changes size when a snapshot is restored
+  const fieldSize = getFieldSize();
+  const speedup = options.stepsPerFrame * options.fps / 60;
+
+  const formats: { value: RecordingFormat; label: string }[] = [{ value: 'gif', label: 'GIF' }];
+  if (canRecordWebm()) formats.unshift({ value: 'webm', label: 'WebM' });
+
+  return (
+    <div
+      ref={popoverRef}
+      className="absolute bottom-full right-0 mb-2 w-72 bg-white dark:bg-gray-900 rounded-lg shadow-lg border border-gray-200 dark:border-gray-800 overflow-hidden z-50"
+    >
+      <div className="p-3 space-y-3">
+        <Select
+          label="Format"
+          value={options.format}
+          options={formats}
+          onChange={(format) => update({ format })}
+        />
+        <Select
+          label="Frame rate"
+          value={String(options.fps)}
+          options={numberOptions(FPS_OPTIONS, fps => `${fps} fps`)}
+          onChange={(value) => update({ fps: Number(value) })}
+        />
+        <Select
+          label="Steps per frame"
+          value={String(options.stepsPerFrame)}
+          options={numberOptions(STEP_OPTIONS, String)}
+          onChange={(value) => update({ stepsPerFrame: Number(value) })}
+        />
+        <Select
+          label="Resolution"
+          value={String(options.scale)}
+          options={numberOptions(SCALE_OPTIONS, scale => fieldSize
+            ? `${Math.round(fieldSize.width * scale)} × ${Math.round(fieldSize.height * scale)}`
+            : `${scale * 100}%`
+          )}
+          onChange={(value) => update({ scale: Number(value) })}
+        />
+        <Select
+          label="Duration"
+          value={String(options.duration)}
+          options={numberOptions(DURATION_OPTIONS, seconds => `${seconds} s`)}
+          onChange={(value) => update({ duration: Number(value) })}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {speedup === 1 ? 'Plays back at about real speed.' : `Plays back about ${Number(speedup.toFixed(1))}× as fast as the simulation runs on screen.`}
+          {options.format === 'webm'
+            ? ' WebM is recorded in real time; if the simulation can\'t keep up, the clip gets choppy.'
+            : ' GIF frames are evenly spaced however long each takes to simulate.'}
+        </p>
+        <button
+          onClick={() => {
+            onStart(options);
+            onOpenChange(false);
+          }}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 rounded-md transition-colors"
+        >
+          <Video className="w-4 h-4" />
+          Start Recording
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { PresetDetails } from '../lib/settingsStore';
+import { normalizeTags } from '../lib/presetQuery';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (name: string, details: PresetDetails) => void;
+  /** Captured from the canvas when the dialog opens. */
+  thumbnail: string | null;
+  /** Publishing to the gallery needs an account. */
+  canPublish: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-transparent';
+
+export function SavePresetDialog({ isOpen, onClose, onConfirm, thumbnail, canPublish }: Props) {
+  const [name, setName] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [folder, setFolder] = React.useState('');
+  const [tags, setTags] = React.useState('');
+  const [isPublic, setIsPublic] = React.useState(false);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDescription('');
+      setFolder('');
+      setTags('');
+      setIsPublic(false);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onConfirm(name.trim(), {
+        description: description.trim(),
+        thumbnail: thumbnail ?? undefined,
+        folder,
+        tags: normalizeTags(tags),
+        isPublic: canPublish && isPublic
+      });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="relative w-full max-w-md bg-white dark:bg-gray-900 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Save Settings</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {thumbnail && (
+            <img src={thumbnail} alt="" className="w-full rounded-md border border-gray-200 dark:border-gray-700" />
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Enter a name..."
+              className={inputClass}
+              autoFocus
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                placeholder="Folder (optional)"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Tags, comma separated"
+                className={inputClass}
+              />
+            </div>
+            {canPublish && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={isPublic}
+                  onChange={(e) => setIsPublic(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                />
+                Publish to the community gallery
+              </label>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!name.trim()}
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
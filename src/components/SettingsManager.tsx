@@ -1,18 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { LogIn, ChevronDown, LogOut } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { SimulationParams, FoodParams } from '../lib/types';
-import { User } from '@supabase/supabase-js';
+import { hasBackend, useCurrentUser, signIn, signUp, signOut } from '../lib/auth';
+import { SimulationParams, StoredParams, FoodParams } from '../lib/types';
 import { Dialog } from './Dialog';
 
 interface Props {
   currentParams: SimulationParams;
   currentFoodParams: FoodParams;
-  onLoad: (params: SimulationParams, foodParams: FoodParams) => void;
+  onLoad: (params: StoredParams, foodParams: FoodParams) => void;
 }
 
 export function SettingsManager({ currentParams, currentFoodParams, onLoad }: Props) {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const currentUser = useCurrentUser();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSigningUp, setIsSigningUp] = useState(false);
@@ -20,28 +19,10 @@ export function SettingsManager({ currentParams, currentFoodParams, onLoad }: Pr
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setCurrentUser(session?.user ?? null);
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setCurrentUser(session?.user ?? null);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      if (error) throw error;
+      await signIn(email, password);
       setShowAuthForm(false);
       setEmail('');
       setPassword('');
@@ -54,11 +35,7 @@ export function SettingsManager({ currentParams, currentFoodParams, onLoad }: Pr
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
-      if (error) throw error;
+      await signUp(email, password);
       setShowAuthForm(false);
       setEmail('');
       setPassword('');
@@ -70,14 +47,16 @@ export function SettingsManager({ currentParams, currentFoodParams, onLoad }: Pr
 
   const handleSignOut = async () => {
     try {
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
+      await signOut();
       setShowUserMenu(false);
     } catch (err: any) {
       console.error('Error signing out:', err.message);
     }
   };
 
+  // Accounts need a backend; without one presets are kept in the browser
+  if (!hasBackend) return null;
+
   if (!currentUser) {
     return (
       <div className="relative">
@@ -1,27 +1,98 @@
-import React, { useRef, useEffect, useState, forwardRef, useCallback } from 'react';
-import { SimulationEngine } from '../lib/SimulationEngine';
-import { SimulationParams, FoodParams } from '../lib/types';
+import React, { useRef, useEffect, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { SimulationWorkerClient } from '../lib/SimulationWorkerClient';
+import { SimulationFrame } from '../lib/workerProtocol';
+import { SimulationParams, StoredParams, FoodParams, FoodSource, FoodSourceOptions, FoodSourceChanges, EngineSnapshot, Tool } from '../lib/types';
+import { createRenderer } from '../lib/renderer';
+import { drawFoodOverlay } from '../lib/foodOverlay';
+import { foodSourceOptions, createFoodId, findFoodSourceAt } from '../lib/food';
+import { rasterizeImage, luminanceToFoodMap } from '../lib/imageFood';
+import { captureThumbnail } from '../lib/thumbnail';
+import { CanvasRecorder, RecordingOptions } from '../lib/recorder';
+import { FoodInspector } from './FoodInspector';
+
+export interface SimulationCanvasHandle {
+  restart: () => void;
+  /**
+   * Restarts the run with new settings in one step, keeping the pause state,
+   * so the same settings always start the same run. Returns the params the
+   * engine now runs with.
+   */
+  restartWith: (params: StoredParams) => SimulationParams;
+  clearFood: () => void;
+  clearWalls: () => void;
+  /** Turns an image into a food map using the food params, or removes it with `null`. */
+  loadFoodImage: (image: ImageBitmap | null) => void;
+  spawnStickyParticle: (x: number, y: number) => void;
+  /** Food sources as of the latest frame. */
+  getFoodSources: () => FoodSource[];
+  addFoodSource: (x: number, y: number, radius: number, strength: number, options?: FoodSourceOptions) => void;
+  captureSnapshot: () => Promise<EngineSnapshot | null>;
+  /** Size of the engine's grid, which stays as it started when the window is resized. */
+  getFieldSize: () => { width: number; height: number };
+  /** Also resizes the engine to the snapshot's grid if the window has a different size. */
+  restoreSnapshot: (snapshot: EngineSnapshot) => void;
+  /** Small JPEG data URL of what is on screen, for preset thumbnails. */
+  captureThumbnail: () => string | null;
+  /**
+   * Records what is drawn into a clip, resolving once it is as long as asked
+   * or `stopRecording` is called. `onProgress` gets the seconds recorded so far.
+   */
+  record: (options: RecordingOptions, onProgress: (seconds: number) => void) => Promise<Blob>;
+  stopRecording: () => void;
+}
+
+interface ActiveRecording {
+  recorder: CanvasRecorder;
+  onProgress: (seconds: number) => void;
+  resolve: (clip: Promise<Blob>) => void;
+}
+
+function finishRecording(recording: ActiveRecording): void {
+  recording.resolve(recording.recorder.finish());
+}
 
 interface Props {
   width: number;
   height: number;
   params: SimulationParams;
   foodParams: FoodParams;
-  selectedTool: 'attract' | 'erase' | 'pin';
-  onRestart?: (restartFn: () => void) => void;
-  onClearFood?: (clearFoodFn: () => void) => void;
-  onSpawn?: (spawnFn: (x: number, y: number) => void) => void;
+  selectedTool: Tool;
+  showFoodOverlay: boolean;
+  /** Called with whatever goes wrong in the simulation worker. */
+  onError: (error: Error) => void;
 }
 
-export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
-  ({ width, height, params, foodParams, selectedTool, onRestart, onClearFood, onSpawn }, ref) => {
+export const SimulationCanvas = forwardRef<SimulationCanvasHandle, Props>(
+  ({ width, height, params, foodParams, selectedTool, showFoodOverlay, onError }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const engineRef = useRef<SimulationEngine | null>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const clientRef = useRef<SimulationWorkerClient | null>(null);
+    // The engine keeps the size it was started with, even when the window resizes
+    const engineSizeRef = useRef({ width: 0, height: 0 });
+    const latestFrameRef = useRef<SimulationFrame | null>(null);
     const frameIdRef = useRef<number>();
     const [isDragging, setIsDragging] = useState(false);
     const [canvasDimensions, setCanvasDimensions] = useState({ width, height });
+    // The canvases hold one pixel per field cell and are stretched over the
+    // window, so every renderer, the overlay and the pointer share one scale
+    const [fieldSize, setFieldSize] = useState({ width, height });
     const lastPinPositionRef = useRef<{ x: number; y: number } | null>(null);
     const paramsRef = useRef(params);
+    const foodParamsRef = useRef(foodParams);
+    foodParamsRef.current = foodParams;
+    const showFoodOverlayRef = useRef(showFoodOverlay);
+    showFoodOverlayRef.current = showFoodOverlay;
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+    // Food sources as of the latest frame, for hit-testing the select tool
+    const foodSourcesRef = useRef<FoodSource[]>([]);
+    const [selectedFood, setSelectedFood] = useState<FoodSource | null>(null);
+    const selectedFoodIdRef = useRef<string | null>(null);
+    selectedFoodIdRef.current = selectedFood?.id ?? null;
+    const foodDragRef = useRef<{ id: string; startX: number; startY: number; originX: number; originY: number } | null>(null);
+    const strokeRef = useRef<{ id: string; lastX: number; lastY: number } | null>(null);
+    const [foodImage, setFoodImage] = useState<ImageBitmap | null>(null);
+    const recordingRef = useRef<ActiveRecording | null>(null);
 
     // Initialize canvas dimensions
     useEffect(() => {
@@ -29,11 +100,6 @@ export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
         const newWidth = window.innerWidth;
         const newHeight = window.innerHeight - 56; // Subtract header height
         setCanvasDimensions({ width: newWidth, height: newHeight });
-        
-        if (canvasRef.current) {
-          canvasRef.current.width = newWidth;
-          canvasRef.current.height = newHeight;
-        }
       };
 
       updateDimensions();
@@ -41,104 +107,147 @@ export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
       return () => window.removeEventListener('resize', updateDimensions);
     }, []);
 
-    const handleRestart = useCallback(() => {
-      if (engineRef.current) {
-        engineRef.current.restartParticles();
-      }
-    }, []);
-
-    const handleClearFood = useCallback(() => {
-      if (engineRef.current) {
-        engineRef.current.clearFoodSources();
+    useImperativeHandle(ref, () => ({
+      restart: () => clientRef.current?.restartParticles(),
+      restartWith: (params: StoredParams) => {
+        const restarted = { ...params, isPaused: paramsRef.current.isPaused };
+        // Sent along with the restart, so the params effect has nothing left to send
+        paramsRef.current = restarted;
+        clientRef.current?.restartParticles(restarted);
+        return restarted;
+      },
+      clearFood: () => {
+        // Clearing the food also drops the engine's food map
+        clientRef.current?.clearFoodSources();
+        setFoodImage(null);
+      },
+      clearWalls: () => clientRef.current?.clearObstacles(),
+      loadFoodImage: (image: ImageBitmap | null) => {
+        if (!image) clientRef.current?.setFoodMap(null);
+        setFoodImage(image);
+      },
+      spawnStickyParticle: (x: number, y: number) => clientRef.current?.spawnStickyParticle(x, y),
+      getFoodSources: () => foodSourcesRef.current,
+      addFoodSource: (x: number, y: number, radius: number, strength: number, options?: FoodSourceOptions) =>
+        clientRef.current?.addFoodSource(x, y, radius, strength, options),
+      captureSnapshot: async () => (await clientRef.current?.captureSnapshot()) ?? null,
+      getFieldSize: () => ({ ...engineSizeRef.current }),
+      restoreSnapshot: (snapshot: EngineSnapshot) => {
+        clientRef.current?.restoreSnapshot(snapshot);
+        // The engine already runs with these params, so don't send them again
+        // when the parent passes them down
+        paramsRef.current = snapshot.params;
+        engineSizeRef.current = { width: snapshot.width, height: snapshot.height };
+        setFieldSize(engineSizeRef.current);
+        // The snapshot brings its own food map
+        setFoodImage(null);
+        setSelectedFood(null);
+      },
+      captureThumbnail: () => canvasRef.current
+        ? captureThumbnail(canvasRef.current, paramsRef.current.backgroundColor)
+        : null,
+      record: (options: RecordingOptions, onProgress: (seconds: number) => void) => new Promise<Blob>((resolve) => {
+        const canvas = canvasRef.current;
+        if (!canvas) throw new Error('The simulation has not started yet');
+        if (recordingRef.current) throw new Error('Already recording');
+        recordingRef.current = { recorder: new CanvasRecorder(canvas.width, canvas.height, options), onProgress, resolve };
+      }),
+      stopRecording: () => {
+        const recording = recordingRef.current;
+        recordingRef.current = null;
+        if (recording) finishRecording(recording);
       }
-    }, []);
+    }), []);
 
-    const handleSpawnStickyParticle = useCallback((x: number, y: number) => {
-      if (engineRef.current) {
-        engineRef.current.spawnStickyParticle(x, y);
-      }
-    }, []);
-
-    // Initialize engine only once
+    // Start the simulation worker only once
     useEffect(() => {
-      const canvas = canvasRef.current;
-      if (!canvas || canvasDimensions.width === 0 || canvasDimensions.height === 0) return;
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Create engine if it doesn't exist
-      if (!engineRef.current) {
-        engineRef.current = new SimulationEngine(canvasDimensions.width, canvasDimensions.height, params);
-        paramsRef.current = params;
-      }
-
-      // Register callbacks
-      if (onRestart) onRestart(handleRestart);
-      if (onClearFood) onClearFood(handleClearFood);
-      if (onSpawn) onSpawn(handleSpawnStickyParticle);
+      if (clientRef.current || canvasDimensions.width === 0 || canvasDimensions.height === 0) return;
+
+      engineSizeRef.current = { width: canvasDimensions.width, height: canvasDimensions.height };
+      setFieldSize(engineSizeRef.current);
+      clientRef.current = new SimulationWorkerClient(
+        canvasDimensions.width,
+        canvasDimensions.height,
+        paramsRef.current,
+        frame => { latestFrameRef.current = frame; },
+        error => onErrorRef.current(error)
+      );
+    }, [canvasDimensions.width, canvasDimensions.height]);
 
+    useEffect(() => {
       return () => {
-        if (frameIdRef.current) {
-          cancelAnimationFrame(frameIdRef.current);
-        }
+        clientRef.current?.terminate();
+        clientRef.current = null;
+        latestFrameRef.current = null;
       };
-    }, [canvasDimensions.width, canvasDimensions.height, onRestart, onClearFood, onSpawn, handleRestart, handleClearFood, handleSpawnStickyParticle]);
+    }, []);
 
     // Update engine parameters when they change
     useEffect(() => {
-      if (engineRef.current && params !== paramsRef.current) {
-        engineRef.current.updateParams(params);
+      if (params !== paramsRef.current) {
         paramsRef.current = params;
+        clientRef.current?.updateParams(params);
       }
     }, [params]);
 
-    // Main render loop
+    // Re-threshold the food image whenever its settings change
+    const { mapThreshold, mapInvert, mapStrength } = foodParams;
+    const foodImagePixels = useMemo(() => {
+      const { width, height } = engineSizeRef.current;
+      return foodImage && width > 0 ? rasterizeImage(foodImage, width, height) : null;
+    }, [foodImage]);
+
+    useEffect(() => {
+      if (!foodImagePixels) return;
+      clientRef.current?.setFoodMap(luminanceToFoodMap(foodImagePixels, { mapThreshold, mapInvert, mapStrength }));
+    }, [foodImagePixels, mapThreshold, mapInvert, mapStrength]);
+
+    // Main render loop: draws the newest frame from the worker and asks for the next
     useEffect(() => {
       const canvas = canvasRef.current;
-      const ctx = canvas?.getContext('2d');
-      if (!canvas || !ctx || !engineRef.current || canvasDimensions.width === 0 || canvasDimensions.height === 0) return;
+      const renderer = canvas && createRenderer(canvas);
+      if (!renderer) return;
+      const overlay = overlayRef.current?.getContext('2d');
 
       const render = () => {
-        if (!ctx || !engineRef.current) return;
-
-        if (!params.isPaused) {
-          engineRef.current.update();
+        const client = clientRef.current;
+        const frame = latestFrameRef.current;
+
+        if (frame) {
+          latestFrameRef.current = null;
+          renderer.render(frame, paramsRef.current);
+          foodSourcesRef.current = frame.foodSources;
+          const selectedId = selectedFoodIdRef.current;
+          if (selectedId && !frame.foodSources.some(food => food.id === selectedId)) {
+            // Eaten, erased or cleared since it was selected
+            setSelectedFood(null);
+          }
+          if (overlay && showFoodOverlayRef.current) {
+            drawFoodOverlay(overlay, frame.foodSources, foodParamsRef.current, paramsRef.current.particleSize, selectedId);
+          }
+          client?.recycleFrame(frame);
+
+          const recording = recordingRef.current;
+          if (recording) {
+            recording.recorder.addFrame(canvas);
+            recording.onProgress(recording.recorder.recordedSeconds);
+            if (recording.recorder.isDone) {
+              recordingRef.current = null;
+              finishRecording(recording);
+            }
+          }
         }
 
-        const { particles, chemicalField } = engineRef.current.getState();
-
-        // Clear canvas with background color
-        ctx.fillStyle = params.backgroundColor;
-        ctx.fillRect(0, 0, canvasDimensions.width, canvasDimensions.height);
-
-        // Draw chemical field with proper blending
-        const imageData = ctx.createImageData(canvasDimensions.width, canvasDimensions.height);
-        const fieldColor = hexToRgb(params.fieldColor);
-        const bgColor = hexToRgb(params.backgroundColor);
-        
-        for (let i = 0; i < chemicalField.length; i++) {
-          const value = chemicalField[i];
-          const idx = i * 4;
-          
-          // Blend the field color with the background based on the chemical value
-          imageData.data[idx] = Math.round(fieldColor.r * value + bgColor.r * (1 - value));
-          imageData.data[idx + 1] = Math.round(fieldColor.g * value + bgColor.g * (1 - value));
-          imageData.data[idx + 2] = Math.round(fieldColor.b * value + bgColor.b * (1 - value));
-          imageData.data[idx + 3] = 255; // Full opacity
+        // While recording, frames come at the clip's pace and step size
+        const recorder = recordingRef.current?.recorder;
+        if (!recorder) {
+          client?.requestFrame();
+        } else {
+          const now = performance.now();
+          if (recorder.isDue(now) && client?.requestFrame(recorder.options.stepsPerFrame)) {
+            recorder.frameRequested(now);
+          }
         }
-        ctx.putImageData(imageData, 0, 0);
-
-        // Draw particles
-        const moldColor = hexToRgb(params.moldColor);
-        particles.forEach(particle => {
-          ctx.fillStyle = particle.isStuck 
-            ? `rgba(${moldColor.r}, ${moldColor.g}, ${moldColor.b}, 1)` 
-            : `rgba(${moldColor.r}, ${moldColor.g}, ${moldColor.b}, 0.8)`;
-          ctx.beginPath();
-          ctx.arc(particle.x, particle.y, params.particleSize, 0, Math.PI * 2);
-          ctx.fill();
-        });
 
         frameIdRef.current = requestAnimationFrame(render);
       };
@@ -149,26 +258,49 @@ export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
         if (frameIdRef.current) {
           cancelAnimationFrame(frameIdRef.current);
         }
+        renderer.dispose();
       };
-    }, [canvasDimensions.width, canvasDimensions.height, params]);
-
-    const hexToRgb = (hex: string) => {
-      const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-      return result ? {
-        r: parseInt(result[1], 16),
-        g: parseInt(result[2], 16),
-        b: parseInt(result[3], 16)
-      } : { r: 0, g: 0, b: 0 };
+    }, []);
+
+    // Selection only lives as long as the select tool does
+    useEffect(() => {
+      if (selectedTool !== 'select') setSelectedFood(null);
+    }, [selectedTool]);
+
+    const handleFoodChange = (changes: FoodSourceChanges) => {
+      if (!selectedFood) return;
+      clientRef.current?.updateFoodSource(selectedFood.id, changes);
+      setSelectedFood({ ...selectedFood, ...changes });
     };
 
+    const handleFoodDelete = () => {
+      if (!selectedFood) return;
+      clientRef.current?.removeFoodSource(selectedFood.id);
+      setSelectedFood(null);
+    };
+
+    // Delete or Backspace removes the selected source unless a form field has focus
+    useEffect(() => {
+      if (!selectedFood) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        clientRef.current?.removeFoodSource(selectedFood.id);
+        setSelectedFood(null);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedFood]);
+
     const getCanvasCoordinates = (e: React.MouseEvent<HTMLCanvasElement>) => {
       const canvas = canvasRef.current;
       if (!canvas) return null;
 
       const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
-      
+      const { width, height } = engineSizeRef.current;
+      const scaleX = width / rect.width;
+      const scaleY = height / rect.height;
+
       return {
         x: (e.clientX - rect.left) * scaleX,
         y: (e.clientY - rect.top) * scaleY
@@ -176,7 +308,8 @@ export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
     };
 
     const handleInteraction = (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (!engineRef.current) return;
+      const client = clientRef.current;
+      if (!client) return;
 
       const coords = getCanvasCoordinates(e);
       if (!coords) return;
@@ -185,52 +318,123 @@ export const SimulationCanvas = forwardRef<HTMLCanvasElement, Props>(
 
       if (selectedTool === 'pin') {
         // Only add a new pinned particle if we've moved far enough from the last one
-        if (!lastPinPositionRef.current || 
+        if (!lastPinPositionRef.current ||
             Math.hypot(x - lastPinPositionRef.current.x, y - lastPinPositionRef.current.y) > params.particleSize * 2) {
-          engineRef.current.spawnStickyParticle(x, y);
+          client.spawnStickyParticle(x, y);
           lastPinPositionRef.current = { x, y };
         }
       } else if (selectedTool === 'erase') {
-        engineRef.current.removeFoodSourcesNear(x, y, foodParams.size);
+        client.removeFoodSourcesNear(x, y, foodParams.size);
+        client.eraseObstacles(x, y, foodParams.size);
       } else if (selectedTool === 'attract') {
-        engineRef.current.addFoodSource(x, y, foodParams.size, foodParams.strength);
+        client.addFoodSource(x, y, foodParams.size, foodParams.strength, foodSourceOptions(foodParams));
+      } else if (selectedTool === 'wall') {
+        client.paintObstacle(x, y, foodParams.size);
       }
     };
 
+    const selectFoodAt = (x: number, y: number) => {
+      const food = findFoodSourceAt(foodSourcesRef.current, x, y, params.particleSize);
+      setSelectedFood(food);
+      foodDragRef.current = food && { id: food.id, startX: x, startY: y, originX: food.x, originY: food.y };
+    };
+
+    const dragSelectedFood = (x: number, y: number) => {
+      const drag = foodDragRef.current;
+      if (!drag) return;
+      const changes = { x: drag.originX + x - drag.startX, y: drag.originY + y - drag.startY };
+      clientRef.current?.updateFoodSource(drag.id, changes);
+      setSelectedFood(food => food && { ...food, ...changes });
+    };
+
+    // Stroke mode: one source per drag, extended whenever the brush has moved half a radius
+    const startStroke = (x: number, y: number) => {
+      const id = createFoodId();
+      strokeRef.current = { id, lastX: x, lastY: y };
+      clientRef.current?.addFoodSource(x, y, foodParams.size, foodParams.strength, {
+        ...foodSourceOptions(foodParams),
+        id,
+        points: [{ x, y }]
+      });
+    };
+
+    const extendStroke = (x: number, y: number) => {
+      const stroke = strokeRef.current;
+      if (!stroke || Math.hypot(x - stroke.lastX, y - stroke.lastY) < Math.max(1, foodParams.size / 2)) return;
+      clientRef.current?.extendFoodStroke(stroke.id, x, y);
+      stroke.lastX = x;
+      stroke.lastY = y;
+    };
+
+    const isStrokeBrush = selectedTool === 'attract' && foodParams.brushMode === 'stroke';
+
     const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
       setIsDragging(true);
       lastPinPositionRef.current = null;
-      handleInteraction(e);
+
+      const coords = getCanvasCoordinates(e);
+      if (selectedTool === 'select') {
+        if (coords) selectFoodAt(coords.x, coords.y);
+      } else if (isStrokeBrush) {
+        if (coords) startStroke(coords.x, coords.y);
+      } else {
+        handleInteraction(e);
+      }
     };
 
     const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (isDragging) {
+      if (!isDragging) return;
+
+      const coords = getCanvasCoordinates(e);
+      if (selectedTool === 'select') {
+        if (coords) dragSelectedFood(coords.x, coords.y);
+      } else if (isStrokeBrush) {
+        if (coords) extendStroke(coords.x, coords.y);
+      } else {
         handleInteraction(e);
       }
     };
 
-    const handleMouseUp = () => {
+    const endDrag = () => {
       setIsDragging(false);
       lastPinPositionRef.current = null;
+      foodDragRef.current = null;
+      strokeRef.current = null;
     };
 
-    const handleMouseLeave = () => {
-      setIsDragging(false);
-      lastPinPositionRef.current = null;
-    };
+    const handleMouseUp = endDrag;
+    const handleMouseLeave = endDrag;
 
     return (
-      <canvas
-        ref={canvasRef}
-        width={canvasDimensions.width}
-        height={canvasDimensions.height}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
-        className="w-full h-full"
-        style={{ cursor: isDragging ? 'grabbing' : 'pointer' }}
-      />
+      <div className="relative w-full h-full">
+        <canvas
+          ref={canvasRef}
+          width={fieldSize.width}
+          height={fieldSize.height}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+          className="w-full h-full"
+          style={{ cursor: isDragging ? 'grabbing' : selectedTool === 'select' ? 'default' : 'pointer' }}
+        />
+        <canvas
+          ref={overlayRef}
+          width={fieldSize.width}
+          height={fieldSize.height}
+          className={`absolute inset-0 w-full h-full pointer-events-none ${showFoodOverlay ? '' : 'hidden'}`}
+        />
+        {selectedFood && (
+          <div className="absolute top-4 left-4">
+            <FoodInspector
+              source={selectedFood}
+              onChange={handleFoodChange}
+              onDelete={handleFoodDelete}
+              onClose={() => setSelectedFood(null)}
+            />
+          </div>
+        )}
+      </div>
     );
   }
-);
\ No newline at end of file
+);
@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Download, FileUp, UploadCloud, Trash2 } from 'lucide-react';
+import { SimulationSnapshot, SNAPSHOT_EXTENSION } from '../lib/snapshot';
+import {
+  StoredSnapshot,
+  downloadSnapshot,
+  readSnapshotFile,
+  uploadSnapshot,
+  listSnapshots,
+  fetchSnapshot,
+  deleteSnapshot
+} from '../lib/snapshotStorage';
+
+interface Props {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onCapture: () => Promise<SimulationSnapshot | null>;
+  onRestore: (snapshot: SimulationSnapshot) => void;
+  /** Signed-in user, whose snapshots are kept in Supabase storage. */
+  userId: string | null;
+}
+
+export function SnapshotPopover({ isOpen, onOpenChange, onCapture, onRestore, userId }: Props) {
+  const [storedSnapshots, setStoredSnapshots] = useState<StoredSnapshot[]>([]);
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadStoredSnapshots = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setStoredSnapshots(await listSnapshots(userId));
+    } catch (err) {
+      console.error('Failed to list snapshots:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      loadStoredSnapshots();
+    }
+  }, [isOpen, loadStoredSnapshots]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        onOpenChange(false);
+      }
+    }
+
+    if (isOpen) {
+      // Small delay to prevent immediate closing
+      setTimeout(() => {
+        document.addEventListener('mousedown', handleClickOutside);
+      }, 100);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen, onOpenChange]);
+
+  // Runs one action at a time and reports its failure in the popover
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? `${failure}: ${err.message}` : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const restore = (snapshot: SimulationSnapshot) => {
+    onRestore(snapshot);
+    onOpenChange(false);
+  };
+
+  const handleDownload = () => run(async () => {
+    const snapshot = await onCapture();
+    if (snapshot) await downloadSnapshot(snapshot, name || `snapshot-step-${snapshot.step}`);
+  }, 'Failed to save snapshot');
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(async () => restore(await readSnapshotFile(file)), 'Failed to open snapshot');
+  };
+
+  const handleUpload = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !name.trim()) return;
+    run(async () => {
+      const snapshot = await onCapture();
+      if (!snapshot) return;
+      await uploadSnapshot(snapshot, name, userId);
+      setName('');
+      await loadStoredSnapshots();
+    }, 'Failed to upload snapshot');
+  };
+
+  const handleDelete = (e: React.MouseEvent, path: string) => {
+    e.stopPropagation();
+    run(async () => {
+      await deleteSnapshot(path);
+      await loadStoredSnapshots();
+    }, 'Failed to delete snapshot');
+  };
+
+  if (!isOpen) return null;
+
+  const actionClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-md transition-colors disabled:opacity-50';
+
+  return (
+    <div
+      ref={popoverRef}
+      className="absolute bottom-full right-0 mb-2 w-72 bg-white dark:bg-gray-900 rounded-lg shadow-lg border border-gray-200 dark:border-gray-800 overflow-hidden z-50"
+    >
+      <div className="p-1 space-y-1">
+        {error && <p className="px-3 py-2 text-sm text-red-500">{error}</p>}
+        <button onClick={handleDownload} disabled={isBusy} className={actionClass}>
+          <Download className="w-4 h-4" />
+          Download Snapshot
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={actionClass}>
+          <FileUp className="w-4 h-4" />
+          Open Snapshot File
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SNAPSHOT_EXTENSION}
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {userId && (
+        <div className="border-t border-gray-200 dark:border-gray-700">
+          <form onSubmit={handleUpload} className="flex items-center gap-1 p-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Snapshot name..."
+              className="flex-1 min-w-0 px-2 py-1 text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !name.trim()}
+              className="p-1.5 rounded-md text-white bg-indigo-600 dark:bg-indigo-500 hover:bg-indigo-700 dark:hover:bg-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Save Snapshot to Cloud"
+            >
+              <UploadCloud className="w-4 h-4" />
+            </button>
+          </form>
+          <div className="max-h-48 overflow-y-auto p-1">
+            {storedSnapshots.length === 0 ? (
+              <div className="p-3 text-sm text-gray-600 dark:text-gray-400">No saved snapshots</div>
+            ) : (
+              storedSnapshots.map(stored => (
+                <div
+                  key={stored.path}
+                  className="flex items-center justify-between p-2 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-md group cursor-pointer"
+                  onClick={() => !isBusy && run(async () => restore(await fetchSnapshot(stored.path)), 'Failed to load snapshot')}
+                >
+                  <span className="flex-1 text-sm text-gray-700 dark:text-gray-300 truncate" title={new Date(stored.createdAt).toLocaleString()}>
+                    {stored.name}
+                  </span>
+                  <span className="mr-1 text-xs text-gray-400">{(stored.size / 1e6).toFixed(1)} MB</span>
+                  <button
+                    onClick={(e) => handleDelete(e, stored.path)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                    title="Delete snapshot"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Plus, X } from 'lucide-react';
+import { MAX_SPECIES } from '../lib/types';
+
+interface Props {
+  count: number;
+  selected: number;
+  colors: string[];
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+}
+
+export function SpeciesTabs({ count, selected, colors, onSelect, onAdd, onRemove }: Props) {
+  return (
+    <div className="flex items-center gap-1">
+      {colors.slice(0, count).map((color, index) => (
+        <button
+          key={index}
+          onClick={() => onSelect(index)}
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors ${
+            selected === index
+              ? 'bg-indigo-600 dark:bg-indigo-500 text-white'
+              : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+          }`}
+          title={`Species ${index + 1}`}
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+          {index + 1}
+        </button>
+      ))}
+      {count < MAX_SPECIES && (
+        <button
+          onClick={onAdd}
+          className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title="Add Species"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      )}
+      {selected > 0 && (
+        <button
+          onClick={() => onRemove(selected)}
+          className="ml-auto p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title={`Remove Species ${selected + 1}`}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -9,11 +9,11 @@ interface Props {
 export function Toggle({ label, checked, onChange }: Props) {
   return (
     <div className="flex items-center justify-between">
-      <label className="text-xs text-gray-300">{label}</label>
+      <label className="text-xs text-gray-600 dark:text-gray-400">{label}</label>
       <button
         type="button"
         className={`relative inline-flex h-4 w-8 items-center rounded-full transition-colors ${
-          checked ? 'bg-indigo-600' : 'bg-gray-700'
+          checked ? 'bg-indigo-600 dark:bg-indigo-500' : 'bg-gray-300 dark:bg-gray-700'
         }`}
         onClick={() => onChange(!checked)}
       >
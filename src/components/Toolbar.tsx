@@ -1,18 +1,46 @@
 import React, { useState, useRef } from 'react';
-import { Brush, Eraser, Play, Pause, RotateCcw, Save, FolderOpen, Pin } from 'lucide-react';
+import { Brush, Eraser, Play, Pause, RotateCcw, Save, FolderOpen, Pin, BrickWall, Trash2, Eye, EyeOff, MousePointer2, ImagePlus, ImageOff, Camera, FileDown, FileUp, Link, Check, Video, Square, ImageDown } from 'lucide-react';
 import { LoadSettingsPopover } from './LoadSettingsPopover';
-import { SimulationParams, FoodParams } from '../lib/types';
+import { SnapshotPopover } from './SnapshotPopover';
+import { RecordPopover } from './RecordPopover';
+import { SimulationParams, StoredParams, FoodParams, Tool } from '../lib/types';
+import { SimulationSnapshot } from '../lib/snapshot';
+import { SettingsStore, SavedPreset } from '../lib/settingsStore';
+import { RecordingOptions } from '../lib/recorder';
 
 interface Props {
-  selectedTool: 'attract' | 'erase' | 'pin';
-  onSelectTool: (tool: 'attract' | 'erase' | 'pin') => void;
+  selectedTool: Tool;
+  onSelectTool: (tool: Tool) => void;
   onClearFood: () => void;
+  onClearWalls: () => void;
+  showFoodOverlay: boolean;
+  onFoodOverlayToggle: () => void;
+  hasFoodMap: boolean;
+  onLoadFoodMap: (file: File) => void;
+  onClearFoodMap: () => void;
   isPaused: boolean;
   onPauseToggle: () => void;
   onReset: () => void;
   onSave: () => void;
-  onLoad: (params: SimulationParams, foodParams: FoodParams) => void;
-  isAuthenticated: boolean;
+  onLoad: (params: StoredParams, foodParams: FoodParams) => void;
+  /** What saved presets are overwritten with. */
+  currentParams: SimulationParams;
+  currentFoodParams: FoodParams;
+  onShowPresetHistory: (store: SettingsStore, preset: SavedPreset) => void;
+  onExportSettings: () => void;
+  onImportSettings: (file: File) => void;
+  /** Resolves to whether the link made it to the clipboard. */
+  onCopyShareLink: () => Promise<boolean>;
+  onCaptureSnapshot: () => Promise<SimulationSnapshot | null>;
+  onRestoreSnapshot: (snapshot: SimulationSnapshot) => void;
+  /** Whole seconds recorded so far, or null when not recording. */
+  recordingSeconds: number | null;
+  onStartRecording: (options: RecordingOptions) => void;
+  onStopRecording: () => void;
+  /** Size of the simulation field, or null before it has started. */
+  getFieldSize: () => { width: number; height: number } | null;
+  onExportImage: () => void;
+  userId: string | null;
   onSpawnStickyParticle: () => void;
 }
 
@@ -20,23 +48,66 @@ export function Toolbar({
   selectedTool, 
   onSelectTool, 
   onClearFood, 
+  onClearWalls,
+  showFoodOverlay,
+  onFoodOverlayToggle,
+  hasFoodMap,
+  onLoadFoodMap,
+  onClearFoodMap,
   isPaused, 
   onPauseToggle, 
   onReset,
   onSave,
   onLoad,
-  isAuthenticated,
+  currentParams,
+  currentFoodParams,
+  onShowPresetHistory,
+  onExportSettings,
+  onImportSettings,
+  onCopyShareLink,
+  onCaptureSnapshot,
+  onRestoreSnapshot,
+  recordingSeconds,
+  onStartRecording,
+  onStopRecording,
+  getFieldSize,
+  onExportImage,
+  userId,
   onSpawnStickyParticle
 }: Props) {
   const [showLoadMenu, setShowLoadMenu] = useState(false);
+  const [showSnapshotMenu, setShowSnapshotMenu] = useState(false);
+  const [showRecordMenu, setShowRecordMenu] = useState(false);
   const loadButtonRef = useRef<HTMLDivElement>(null);
+  const foodMapInputRef = useRef<HTMLInputElement>(null);
+  const settingsInputRef = useRef<HTMLInputElement>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleCopyShareLink = async () => {
+    if (!(await onCopyShareLink())) return;
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const handleSettingsFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportSettings(file);
+    e.target.value = '';
+  };
+
+  const handleFoodMapFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onLoadFoodMap(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
 
   const ToolButton = ({ 
     tool, 
     icon: Icon, 
     label 
   }: { 
-    tool: 'attract' | 'erase' | 'pin'; 
+    tool: Tool; 
     icon: React.ElementType; 
     label: string;
   }) => (
@@ -70,6 +141,11 @@ export function Toolbar({
         <RotateCcw className="w-5 h-5" />
       </button>
       <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+      <ToolButton
+        tool="select"
+        icon={MousePointer2}
+        label="Select Food"
+      />
       <ToolButton
         tool="pin"
         icon={Pin}
@@ -80,39 +156,165 @@ export function Toolbar({
         icon={Brush}
         label="Draw Food"
       />
+      <ToolButton
+        tool="wall"
+        icon={BrickWall}
+        label="Draw Walls"
+      />
       <ToolButton
         tool="erase"
         icon={Eraser}
-        label="Erase Food"
+        label="Erase Food and Walls"
       />
-      {isAuthenticated && (
-        <>
-          <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+      {selectedTool === 'wall' && (
+        <button
+          onClick={onClearWalls}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title="Clear Walls"
+        >
+          <Trash2 className="w-5 h-5" />
+        </button>
+      )}
+      <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+      <button
+        onClick={onFoodOverlayToggle}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title={showFoodOverlay ? 'Hide Food Overlay' : 'Show Food Overlay'}
+      >
+        {showFoodOverlay ? <Eye className="w-5 h-5" /> : <EyeOff className="w-5 h-5" />}
+      </button>
+      <button
+        onClick={() => foodMapInputRef.current?.click()}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Load Food Map from Image"
+      >
+        <ImagePlus className="w-5 h-5" />
+      </button>
+      <input
+        ref={foodMapInputRef}
+        type="file"
+        accept="image/png,image/jpeg"
+        className="hidden"
+        onChange={handleFoodMapFile}
+      />
+      {hasFoodMap && (
+        <button
+          onClick={onClearFoodMap}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title="Remove Food Map"
+        >
+          <ImageOff className="w-5 h-5" />
+        </button>
+      )}
+      <div className="relative">
+        <button
+          onClick={() => setShowSnapshotMenu(!showSnapshotMenu)}
+          className={`p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${
+            showSnapshotMenu ? 'bg-gray-100 dark:bg-gray-800' : ''
+          }`}
+          title="Snapshots"
+        >
+          <Camera className="w-5 h-5" />
+        </button>
+        <SnapshotPopover
+          isOpen={showSnapshotMenu}
+          onOpenChange={setShowSnapshotMenu}
+          onCapture={onCaptureSnapshot}
+          onRestore={onRestoreSnapshot}
+          userId={userId}
+        />
+      </div>
+      <div className="relative">
+        {recordingSeconds === null ? (
           <button
-            onClick={onSave}
-            className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-            title="Save Settings"
+            onClick={() => setShowRecordMenu(!showRecordMenu)}
+            className={`p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${
+              showRecordMenu ? 'bg-gray-100 dark:bg-gray-800' : ''
+            }`}
+            title="Record Video"
           >
-            <Save className="w-5 h-5" />
+            <Video className="w-5 h-5" />
           </button>
-          <div ref={loadButtonRef} className="relative">
-            <button
-              onClick={() => setShowLoadMenu(!showLoadMenu)}
-              className={`p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${
-                showLoadMenu ? 'bg-gray-100 dark:bg-gray-800' : ''
-              }`}
-              title="Load Settings"
-            >
-              <FolderOpen className="w-5 h-5" />
-            </button>
-            <LoadSettingsPopover 
-              isOpen={showLoadMenu} 
-              onLoad={onLoad} 
-              onOpenChange={setShowLoadMenu}
-            />
-          </div>
-        </>
-      )}
+        ) : (
+          <button
+            onClick={onStopRecording}
+            className="flex items-center gap-1 p-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Stop Recording"
+          >
+            <Square className="w-5 h-5 fill-current" />
+            <span className="text-xs tabular-nums">{recordingSeconds}s</span>
+          </button>
+        )}
+        <RecordPopover
+          isOpen={showRecordMenu}
+          onOpenChange={setShowRecordMenu}
+          onStart={onStartRecording}
+          getFieldSize={getFieldSize}
+        />
+      </div>
+      <button
+        onClick={onExportImage}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Export Image"
+      >
+        <ImageDown className="w-5 h-5" />
+      </button>
+      <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+      <button
+        onClick={onSave}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title={userId ? 'Save Settings' : 'Save Settings in This Browser'}
+      >
+        <Save className="w-5 h-5" />
+      </button>
+      <div ref={loadButtonRef} className="relative">
+        <button
+          onClick={() => setShowLoadMenu(!showLoadMenu)}
+          className={`p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${
+            showLoadMenu ? 'bg-gray-100 dark:bg-gray-800' : ''
+          }`}
+          title="Load Settings"
+        >
+          <FolderOpen className="w-5 h-5" />
+        </button>
+        <LoadSettingsPopover 
+          isOpen={showLoadMenu} 
+          onLoad={onLoad} 
+          onOpenChange={setShowLoadMenu}
+          userId={userId}
+          currentParams={currentParams}
+          currentFoodParams={currentFoodParams}
+          onShowHistory={onShowPresetHistory}
+        />
+      </div>
+      <button
+        onClick={onExportSettings}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Download Settings File"
+      >
+        <FileDown className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => settingsInputRef.current?.click()}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Open Settings File"
+      >
+        <FileUp className="w-5 h-5" />
+      </button>
+      <button
+        onClick={handleCopyShareLink}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title={linkCopied ? 'Link Copied' : 'Copy Share Link'}
+      >
+        {linkCopied ? <Check className="w-5 h-5" /> : <Link className="w-5 h-5" />}
+      </button>
+      <input
+        ref={settingsInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleSettingsFile}
+      />
     </div>
   );
 }
\ No newline at end of file
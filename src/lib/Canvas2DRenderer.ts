@@ -0,0 +1,73 @@
+import { SimulationParams, PARTICLE_STUCK } from './types';
+import { SimulationFrame, PARTICLE_STRIDE } from './workerProtocol';
+import { hexToRgb } from './color';
+import { speciesColors } from './species';
+import { colorizeField } from './fieldImage';
+import type { Renderer } from './renderer';
+
+/**
+ * Draws the field into a canvas of its own size, then stretches it over the
+ * target canvas as the WebGL renderer does, particles included.
+ */
+export class Canvas2DRenderer implements Renderer {
+  public readonly kind = 'canvas2d';
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private fieldCanvas = document.createElement('canvas');
+  private imageData: ImageData | null = null;
+  private obstacles: Uint8Array | null = null;
+
+  private constructor(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+    this.canvas = canvas;
+    this.ctx = ctx;
+  }
+
+  public static create(canvas: HTMLCanvasElement): Canvas2DRenderer | null {
+    const ctx = canvas.getContext('2d');
+    return ctx ? new Canvas2DRenderer(canvas, ctx) : null;
+  }
+
+  public render(frame: SimulationFrame, params: SimulationParams): void {
+    const { ctx, canvas } = this;
+    const { width, height, chemicalField, channels, particles, particleCount } = frame;
+
+    // Draw chemical field with proper blending
+    const fieldCanvas = this.fieldCanvas;
+    if (!this.imageData || this.imageData.width !== width || this.imageData.height !== height) {
+      fieldCanvas.width = width;
+      fieldCanvas.height = height;
+      this.imageData = ctx.createImageData(width, height);
+    }
+    if (frame.obstacles) this.obstacles = frame.obstacles;
+    const obstacles = this.obstacles?.length === width * height ? this.obstacles : null;
+    colorizeField(chemicalField, channels, obstacles, params, this.imageData.data, 4);
+    fieldCanvas.getContext('2d')!.putImageData(this.imageData, 0, 0);
+
+    // Every cell is drawn, so the field covers the whole canvas
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(fieldCanvas, 0, 0, canvas.width, canvas.height);
+    ctx.setTransform(canvas.width / width, 0, 0, canvas.height / height, 0, 0);
+
+    // Draw particles
+    const styles = speciesColors(params, channels).map(color => {
+      const { r, g, b } = hexToRgb(color.moldColor);
+      return { stuck: `rgba(${r}, ${g}, ${b}, 1)`, free: `rgba(${r}, ${g}, ${b}, 0.8)` };
+    });
+    for (let i = 0; i < particleCount; i++) {
+      const offset = i * PARTICLE_STRIDE;
+      const style = styles[particles[offset + 3]] ?? styles[0];
+      ctx.fillStyle = particles[offset + 2] & PARTICLE_STUCK ? style.stuck : style.free;
+      ctx.beginPath();
+      ctx.arc(particles[offset], particles[offset + 1], params.particleSize, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  public dispose(): void {
+    this.fieldCanvas.width = 0;
+    this.fieldCanvas.height = 0;
+    this.imageData = null;
+    this.obstacles = null;
+  }
+}
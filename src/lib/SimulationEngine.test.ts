@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { SimulationEngine } from './SimulationEngine';
+import { defaultParams } from './defaults';
+import { addSpecies, setInteraction } from './species';
+import { SimulationParams, PARTICLE_STUCK, PARTICLE_PINNED } from './types';
+
+// A quiet field with no flocking, so only the release rules move particles
+function createEngine(changes: Partial<SimulationParams> = {}, particleCount = 0): SimulationEngine {
+  return new SimulationEngine(100, 100, {
+    ...defaultParams,
+    particleCount,
+    alignmentForce: 0,
+    separationForce: 0,
+    cohesionForce: 0,
+    stickingProbability: 0,
+    seed: 1,
+    ...changes
+  });
+}
+
+/** Places particle i at (x, y) as a stuck particle whose bond has held for `age` steps. */
+function stick(engine: SimulationEngine, i: number, x: number, y: number, age = 0): void {
+  const { particles } = engine.getState();
+  particles.x[i] = x;
+  particles.y[i] = y;
+  particles.vx[i] = 0;
+  particles.vy[i] = 0;
+  particles.flags[i] = PARTICLE_STUCK;
+  particles.age[i] = age;
+}
+
+/** Share of the given particles that are no longer stuck. */
+function releasedFraction(engine: SimulationEngine, indices: number[]): number {
+  const { flags } = engine.getState().particles;
+  return indices.filter(i => !(flags[i] & PARTICLE_STUCK)).length / indices.length;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Release is random, so its rates are measured over this many particles
+const SAMPLES = 2000;
+
+describe('SimulationEngine release', () => {
+  it('releases every stuck particle when releaseProbability is 1', () => {
+    const engine = createEngine({ releaseProbability: 1 }, 3);
+    [0, 1, 2].forEach(i => stick(engine, i, 20 + i * 30, 50));
+
+    engine.update();
+
+    const { particles } = engine.getState();
+    for (let i = 0; i < 3; i++) {
+      expect(particles.flags[i] & PARTICLE_STUCK).toBe(0);
+      expect(Math.hypot(particles.vx[i], particles.vy[i])).toBeCloseTo(defaultParams.moveSpeed, 5);
+    }
+  });
+
+  it('never releases pinned particles', () => {
+    const engine = createEngine({ releaseProbability: 1 });
+    engine.spawnStickyParticle(50, 50);
+
+    for (let step = 0; step < 20; step++) engine.update();
+
+    const { particles } = engine.getState();
+    expect(particles.flags[0]).toBe(PARTICLE_STUCK | PARTICLE_PINNED);
+    expect([particles.x[0], particles.y[0]]).toEqual([50, 50]);
+  });
+
+  it('halves the release chance every releaseAgeHalfLife steps', () => {
+    const engine = createEngine({ releaseProbability: 0.5, releaseAgeHalfLife: 10 }, 3 * SAMPLES);
+    const groups = [0, 10, 20].map((age, group) => {
+      const indices = Array.from({ length: SAMPLES }, (_, k) => group * SAMPLES + k);
+      indices.forEach(i => stick(engine, i, i % 100, Math.floor(i / 100) % 100, age));
+      return indices;
+    });
+
+    engine.update();
+
+    // Bonds age a step before they are rolled for
+    groups.forEach((indices, group) => {
+      expect(releasedFraction(engine, indices)).toBeCloseTo(0.5 * Math.pow(0.5, (group * 10 + 1) / 10), 1);
+    });
+  });
+
+  it('scales the release chance by 1 - releaseNeighborFactor per stuck neighbour', () => {
+    // A grid of clusters, each a particle with two neighbours within sticking
+    // distance (3 × particle size), and a lone particle between clusters.
+    // The clusters' centres come first, so they roll while their neighbours hold.
+    const clusters = 100;
+    const engine = createEngine({ releaseProbability: 0.8, releaseNeighborFactor: 0.5 }, clusters * 4);
+    const centres = Array.from({ length: clusters }, (_, k) => k);
+    const loners = centres.map(k => clusters * 3 + k);
+    const centreFractions: number[] = [];
+    const lonerFractions: number[] = [];
+
+    for (let trial = 0; trial < 20; trial++) {
+      centres.forEach(k => {
+        const x = (k % 10) * 10 + 2;
+        const y = Math.floor(k / 10) * 10 + 2;
+        stick(engine, k, x, y);
+        stick(engine, clusters + k, x + 2, y);
+        stick(engine, clusters * 2 + k, x, y + 2);
+        stick(engine, loners[k], x + 5, y + 5);
+      });
+      engine.update();
+      centreFractions.push(releasedFraction(engine, centres));
+      lonerFractions.push(releasedFraction(engine, loners));
+    }
+
+    expect(mean(centreFractions)).toBeCloseTo(0.8 * 0.25, 1);
+    expect(mean(lonerFractions)).toBeCloseTo(0.8, 1);
+  });
+
+  it('keeps a released particle from sticking again until it has cleared the cluster', () => {
+    // Cooldown is ceil(2 × sticking distance / moveSpeed) = 6 steps
+    const engine = createEngine({ stickingProbability: 1, moveSpeed: 1 }, 1);
+    engine.spawnStickyParticle(50, 50);
+    const { particles } = engine.getState();
+    const free = 0;
+
+    const placeNextToSeed = (age: number) => {
+      particles.x[free] = 51;
+      particles.y[free] = 50;
+      particles.vx[free] = 1;
+      particles.vy[free] = 0;
+      particles.flags[free] = 0;
+      particles.age[free] = age;
+    };
+
+    placeNextToSeed(0);
+    engine.update();
+    expect(particles.flags[free] & PARTICLE_STUCK).toBe(0);
+
+    placeNextToSeed(6);
+    engine.update();
+    expect(particles.flags[free] & PARTICLE_STUCK).toBe(PARTICLE_STUCK);
+  });
+});
+
+describe('SimulationEngine food', () => {
+  it('attracts every species alike, whatever they make of each other\'s trails', () => {
+    // Each species is repelled by the other's trail
+    const params = setInteraction(setInteraction(addSpecies({ ...defaultParams, particleCount: 1, seed: 1 }), 0, 1, -1), 1, 0, -1);
+    const engine = new SimulationEngine(100, 100, params);
+    const { particles } = engine.getState();
+    const starts = [{ x: 30, y: 30 }, { x: 30, y: 70 }];
+    // Food under each particle's left sensor, and nowhere near the others
+    const sensorOffset = defaultParams.sensorDistance * Math.SQRT1_2;
+    starts.forEach(({ x, y }) => engine.addFoodSource(x + sensorOffset, y - sensorOffset, 2, 0.6));
+
+    // Stuck particles lay no trail, so the first step only spreads the food
+    starts.forEach(({ x, y }, i) => stick(engine, i, x, y));
+    engine.update();
+
+    starts.forEach((_, i) => {
+      particles.flags[i] = 0;
+      particles.angle[i] = 0;
+      particles.vx[i] = defaultParams.moveSpeed;
+      particles.vy[i] = 0;
+    });
+    engine.update();
+
+    expect(Array.from(particles.species.subarray(0, 2))).toEqual([0, 1]);
+    for (const i of [0, 1]) {
+      expect(particles.angle[i]).toBeCloseTo(-defaultParams.turnSpeed, 5);
+    }
+  });
+});
+
+describe('SimulationEngine restart', () => {
+  const run = (engine: SimulationEngine, steps: number) => {
+    for (let step = 0; step < steps; step++) engine.update();
+    return engine.getState().chemicalField.slice();
+  };
+
+  it('replays the run from an empty field when restarted', () => {
+    const engine = createEngine({}, 50);
+    const first = run(engine, 10);
+
+    engine.restartParticles();
+    expect(run(engine, 10)).toEqual(first);
+  });
+
+  it('starts a new seed on an empty field', () => {
+    const engine = createEngine({}, 50);
+    run(engine, 10);
+
+    engine.updateParams({ ...engine.getParams(), seed: 2 });
+    expect(run(engine, 10)).toEqual(run(createEngine({ seed: 2 }, 50), 10));
+  });
+});
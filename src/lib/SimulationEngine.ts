@@ -1,129 +1,328 @@
-import { SimulationParams, Particle, ChemicalField } from './types';
+import {
+  SimulationParams,
+  SpeciesParams,
+  ParticleBuffers,
+  ChemicalField,
+  FoodSource,
+  FoodSourceOptions,
+  FoodSourceChanges,
+  EngineSnapshot,
+  PARTICLE_STUCK,
+  PARTICLE_PINNED
+} from './types';
+import { SeededRandom } from './random';
+import { speciesCount, getSpecies, interactionWeight } from './species';
+import { createFoodId, distanceToFoodSource, cloneFoodSource, foodSourceBounds } from './food';
+
+// Sensor reading for a solid wall, so particles steer away from it
+const WALL_SIGNAL = -1;
+// How far inside the far edge a particle is kept
+const EDGE_MARGIN = 1e-3;
+// Particle ages are stored as Uint16 and stop counting here
+const MAX_AGE = 0xffff;
 
 export class SimulationEngine {
-  private particles: Particle[] = [];
+  private particles: ParticleBuffers;
   private chemicalField: ChemicalField;
+  // Scratch buffers for diffusion, allocated once and reused every step
+  private nextField: ChemicalField;
+  private blurBuffer: Float32Array;
+  private columnSums: Float64Array;
+  private kernelWeights: Float32Array;
+  private kernelWeightsKey = '';
+  // Cells particles and chemical can't enter, painted with the wall tool
+  private obstacles: Uint8Array;
+  private obstacleVersion = 0;
+  private hasObstacles = false;
+  private lineBuffer = new Float32Array(0);
   private width: number;
   private height: number;
   private params: SimulationParams;
-  private foodSources: Array<{ x: number; y: number; radius: number; strength: number }> = [];
-  private grid: Map<string, Particle[]> = new Map();
+  private foodSources: FoodSource[] = [];
+  // Which consumable source (index + 1) covers each cell, rebuilt lazily
+  private foodOwner: Int32Array;
+  private foodOwnerDirty = false;
+  private hasConsumableFood = false;
+  // Per-cell food from an imported image, applied like a food source
+  private foodMap: Float32Array | null = null;
+  // Spatial hash as a counting sort: the particles of cell c are
+  // cellParticles[cellStart[c] .. cellStart[c + 1]]
   private gridSize = 10;
+  private gridColumns: number;
+  private gridRows: number;
+  private cellStart: Int32Array;
+  private cellParticles = new Int32Array(0);
+  private particleCells = new Int32Array(0);
+  private sensorValues = new Float64Array(3);
+  private random: SeededRandom;
+  // Settings resolved per species, and the interaction matrix flattened row by row
+  private species: SpeciesParams[] = [];
+  private interactions = new Float64Array(1);
+  private channels = 1;
+  private step = 0;
 
   constructor(width: number, height: number, params: SimulationParams) {
     this.width = width;
     this.height = height;
     this.params = params;
-    this.chemicalField = new Float32Array(width * height);
+    this.random = new SeededRandom(params.seed);
+    this.chemicalField = new Float32Array(0);
+    this.nextField = new Float32Array(0);
+    this.resolveSpecies();
+    this.blurBuffer = new Float32Array(width * height);
+    this.columnSums = new Float64Array(width);
+    this.kernelWeights = new Float32Array(width * height);
+    this.obstacles = new Uint8Array(width * height);
+    this.foodOwner = new Int32Array(width * height);
+    this.gridColumns = Math.ceil(width / this.gridSize);
+    this.gridRows = Math.ceil(height / this.gridSize);
+    this.cellStart = new Int32Array(this.gridColumns * this.gridRows + 1);
+    this.particles = {
+      count: 0,
+      x: new Float32Array(0),
+      y: new Float32Array(0),
+      vx: new Float32Array(0),
+      vy: new Float32Array(0),
+      angle: new Float32Array(0),
+      flags: new Uint8Array(0),
+      age: new Uint16Array(0),
+      species: new Uint8Array(0)
+    };
     this.initializeParticles();
   }
 
+  private ensureCapacity(required: number): void {
+    const particles = this.particles;
+    if (particles.x.length >= required) return;
+
+    const capacity = Math.max(required, particles.x.length * 2, 1024);
+    const grow = <T extends Float32Array | Uint8Array | Uint16Array>(source: T, target: T): T => {
+      target.set(source.subarray(0, particles.count));
+      return target;
+    };
+    particles.x = grow(particles.x, new Float32Array(capacity));
+    particles.y = grow(particles.y, new Float32Array(capacity));
+    particles.vx = grow(particles.vx, new Float32Array(capacity));
+    particles.vy = grow(particles.vy, new Float32Array(capacity));
+    particles.angle = grow(particles.angle, new Float32Array(capacity));
+    particles.flags = grow(particles.flags, new Uint8Array(capacity));
+    particles.age = grow(particles.age, new Uint16Array(capacity));
+    particles.species = grow(particles.species, new Uint8Array(capacity));
+    this.cellParticles = new Int32Array(capacity);
+    this.particleCells = new Int32Array(capacity);
+  }
+
+  /**
+   * Caches the settings of every species and resizes the field to one plane
+   * per species plus the food plane, keeping the planes that still exist.
+   */
+  private resolveSpecies(): void {
+    const count = speciesCount(this.params);
+    this.species = Array.from({ length: count }, (_, s) => getSpecies(this.params, s));
+    this.interactions = new Float64Array(count * count);
+    for (let from = 0; from < count; from++) {
+      for (let to = 0; to < count; to++) {
+        this.interactions[from * count + to] = interactionWeight(this.params, from, to);
+      }
+    }
+
+    const planeSize = this.width * this.height;
+    const size = planeSize * (count + 1);
+    if (this.chemicalField.length !== size) {
+      const field = new Float32Array(size);
+      if (this.chemicalField.length > 0) {
+        field.set(this.chemicalField.subarray(0, planeSize * Math.min(count, this.channels)));
+        field.set(this.foodPlane(), planeSize * count);
+      }
+      this.chemicalField = field;
+      this.nextField = new Float32Array(size);
+    }
+    this.channels = count;
+  }
+
   private initializeParticles(): void {
-    this.particles = [];
-    for (let i = 0; i < this.params.particleCount; i++) {
-      this.particles.push({
-        x: Math.random() * this.width,
-        y: Math.random() * this.height,
-        angle: Math.random() * Math.PI * 2,
-        speed: this.params.moveSpeed,
-        vx: Math.cos(Math.random() * Math.PI * 2) * this.params.moveSpeed,
-        vy: Math.sin(Math.random() * Math.PI * 2) * this.params.moveSpeed,
-        isStuck: false
-      });
+    this.particles.count = 0;
+    this.ensureCapacity(this.species.reduce((total, species) => total + species.particleCount, 0));
+    this.species.forEach((species, s) => {
+      for (let i = 0; i < species.particleCount; i++) {
+        this.addRandomParticle(s);
+      }
+    });
+  }
+
+  private addRandomParticle(species: number): void {
+    const p = this.particles;
+    this.ensureCapacity(p.count + 1);
+    const i = p.count++;
+    p.x[i] = this.random.next() * this.width;
+    p.y[i] = this.random.next() * this.height;
+    p.angle[i] = this.random.next() * Math.PI * 2;
+    p.vx[i] = Math.cos(this.random.next() * Math.PI * 2) * this.species[species].moveSpeed;
+    p.vy[i] = Math.sin(this.random.next() * Math.PI * 2) * this.species[species].moveSpeed;
+    p.flags[i] = 0;
+    p.age[i] = MAX_AGE;
+    p.species[i] = species;
+  }
+
+  /** Drops the particles whose `remove` entry is set, keeping the rest in order. */
+  private compactParticles(remove: Uint8Array): void {
+    const p = this.particles;
+    let kept = 0;
+    for (let i = 0; i < p.count; i++) {
+      if (remove[i]) continue;
+      if (kept !== i) {
+        p.x[kept] = p.x[i];
+        p.y[kept] = p.y[i];
+        p.vx[kept] = p.vx[i];
+        p.vy[kept] = p.vy[i];
+        p.angle[kept] = p.angle[i];
+        p.flags[kept] = p.flags[i];
+        p.age[kept] = p.age[i];
+        p.species[kept] = p.species[i];
+      }
+      kept++;
     }
+    p.count = kept;
   }
 
   public updateParams(newParams: SimulationParams): void {
-    const oldParticleCount = this.params.particleCount;
-    const newParticleCount = newParams.particleCount;
+    const oldSpecies = this.species;
+    const seedChanged = newParams.seed !== this.params.seed;
+    const p = this.particles;
     
     // Update parameters
+    if (newParams.particleSize !== this.params.particleSize) this.foodOwnerDirty = true;
     this.params = { ...newParams };
+    this.resolveSpecies();
 
-    // Handle particle count changes without resetting existing particles
-    if (newParticleCount > oldParticleCount) {
-      // Add new particles
-      for (let i = oldParticleCount; i < newParticleCount; i++) {
-        this.particles.push({
-          x: Math.random() * this.width,
-          y: Math.random() * this.height,
-          angle: Math.random() * Math.PI * 2,
-          speed: this.params.moveSpeed,
-          vx: Math.cos(Math.random() * Math.PI * 2) * this.params.moveSpeed,
-          vy: Math.sin(Math.random() * Math.PI * 2) * this.params.moveSpeed,
-          isStuck: false
-        });
-      }
-    } else if (newParticleCount < oldParticleCount) {
-      // Remove excess particles, prioritizing non-stuck particles
-      const particlesToRemove = oldParticleCount - newParticleCount;
-      
-      // First try to remove non-stuck particles
-      const nonStuckIndices = this.particles
-        .map((p, i) => ({ index: i, isStuck: p.isStuck }))
-        .filter(p => !p.isStuck)
-        .map(p => p.index)
-        .reverse(); // Remove from end to avoid index shifting
-
-      let removed = 0;
-      for (const index of nonStuckIndices) {
-        if (removed >= particlesToRemove) break;
-        this.particles.splice(index, 1);
-        removed++;
+    if (seedChanged) {
+      // A new seed starts a new run
+      this.restartParticles();
+    } else if (this.channels < oldSpecies.length) {
+      // The params don't say which species was removed, so the survivors
+      // can't be matched to their particles and trails: start them afresh
+      this.chemicalField.fill(0);
+      this.initializeParticles();
+    } else {
+      // Handle particle count changes without resetting existing particles
+      this.species.forEach((species, s) => {
+        const oldParticleCount = oldSpecies[s]?.particleCount ?? 0;
+        if (species.particleCount > oldParticleCount) {
+          for (let i = oldParticleCount; i < species.particleCount; i++) {
+            this.addRandomParticle(s);
+          }
+        } else if (species.particleCount < oldParticleCount) {
+          this.removeParticles(s, oldParticleCount - species.particleCount);
+        }
+      });
+    }
+
+    // Update speeds of existing particles
+    for (let i = 0; i < p.count; i++) {
+      if (p.flags[i] & PARTICLE_STUCK) continue;
+      const currentSpeed = Math.sqrt(p.vx[i] * p.vx[i] + p.vy[i] * p.vy[i]);
+      if (currentSpeed > 0) {
+        const scale = this.species[p.species[i]].moveSpeed / currentSpeed;
+        p.vx[i] *= scale;
+        p.vy[i] *= scale;
       }
+    }
+  }
+
+  /** Removes `amount` particles of one species, prioritizing non-stuck particles from the end. */
+  private removeParticles(species: number, amount: number): void {
+    const p = this.particles;
+    let particlesToRemove = amount;
+    const remove = new Uint8Array(p.count);
 
-      // If we still need to remove more, remove stuck particles
-      if (removed < particlesToRemove) {
-        this.particles.splice(-(particlesToRemove - removed));
+    for (let i = p.count - 1; i >= 0 && particlesToRemove > 0; i--) {
+      if (p.species[i] === species && !(p.flags[i] & PARTICLE_STUCK)) {
+        remove[i] = 1;
+        particlesToRemove--;
       }
     }
 
-    // Update speeds of existing particles
-    this.particles.forEach(particle => {
-      if (!particle.isStuck) {
-        const currentSpeed = Math.sqrt(particle.vx! * particle.vx! + particle.vy! * particle.vy!);
-        if (currentSpeed > 0) {
-          const scale = this.params.moveSpeed / currentSpeed;
-          particle.vx! *= scale;
-          particle.vy! *= scale;
-        }
-        particle.speed = this.params.moveSpeed;
+    // If we still need to remove more, remove stuck particles
+    for (let i = p.count - 1; i >= 0 && particlesToRemove > 0; i--) {
+      if (p.species[i] === species && !remove[i]) {
+        remove[i] = 1;
+        particlesToRemove--;
       }
-    });
+    }
+
+    this.compactParticles(remove);
   }
 
+  /**
+   * Starts the run over from its seed, with fresh particles on an empty
+   * field. Food sources and walls stay.
+   */
   public restartParticles(): void {
+    this.random.reseed(this.params.seed);
+    this.step = 0;
+    this.chemicalField.fill(0);
+    this.nextField.fill(0);
     this.initializeParticles();
   }
 
   public spawnStickyParticle(x: number, y: number): void {
-    const particle: Particle = {
-      x,
-      y,
-      angle: 0,
-      speed: 0,
-      vx: 0,
-      vy: 0,
-      isStuck: true
-    };
-    this.particles.push(particle);
+    const p = this.particles;
+    this.ensureCapacity(p.count + 1);
+    const i = p.count++;
+    p.x[i] = x;
+    p.y[i] = y;
+    p.angle[i] = 0;
+    p.vx[i] = 0;
+    p.vy[i] = 0;
+    p.flags[i] = PARTICLE_STUCK | PARTICLE_PINNED;
+    p.age[i] = 0;
+    p.species[i] = 0;
+  }
+
+  private cellOf(x: number, y: number): number {
+    const column = Math.min(this.gridColumns - 1, Math.max(0, Math.floor(x / this.gridSize)));
+    const row = Math.min(this.gridRows - 1, Math.max(0, Math.floor(y / this.gridSize)));
+    return row * this.gridColumns + column;
   }
 
   private updateGrid() {
-    this.grid.clear();
-    this.particles.forEach(particle => {
-      const gridX = Math.floor(particle.x / this.gridSize);
-      const gridY = Math.floor(particle.y / this.gridSize);
-      const key = `${gridX},${gridY}`;
-      if (!this.grid.has(key)) {
-        this.grid.set(key, []);
-      }
-      this.grid.get(key)!.push(particle);
-    });
+    const p = this.particles;
+    const cellStart = this.cellStart;
+    const cellCount = cellStart.length - 1;
+
+    // Count particles per cell, turn counts into start offsets, then scatter
+    cellStart.fill(0);
+    for (let i = 0; i < p.count; i++) {
+      const cell = this.cellOf(p.x[i], p.y[i]);
+      this.particleCells[i] = cell;
+      cellStart[cell + 1]++;
+    }
+    for (let c = 0; c < cellCount; c++) {
+      cellStart[c + 1] += cellStart[c];
+    }
+    for (let i = p.count - 1; i >= 0; i--) {
+      const cell = this.particleCells[i];
+      this.cellParticles[--cellStart[cell + 1]] = i;
+    }
+    // Scattering walked each cell's end offset back to its start, one slot up
+    for (let c = 0; c < cellCount; c++) {
+      cellStart[c] = cellStart[c + 1];
+    }
+    cellStart[cellCount] = p.count;
   }
 
-  private calculateForces(particle: Particle) {
-    if (particle.isStuck) return { vx: 0, vy: 0 };
+  private calculateForces(i: number): void {
+    const p = this.particles;
+    if (p.flags[i] & PARTICLE_STUCK) {
+      p.vx[i] = 0;
+      p.vy[i] = 0;
+      return;
+    }
+
+    const px = p.x[i];
+    const py = p.y[i];
+    const species = p.species[i];
+    const { moveSpeed, turnSpeed } = this.species[species];
 
     // Calculate flocking forces
     let alignmentX = 0, alignmentY = 0;
@@ -131,38 +330,47 @@ export class SimulationEngine {
     let separationX = 0, separationY = 0;
     let flockCount = 0;
 
-    const gridX = Math.floor(particle.x / this.gridSize);
-    const gridY = Math.floor(particle.y / this.gridSize);
+    const gridX = Math.floor(px / this.gridSize);
+    const gridY = Math.floor(py / this.gridSize);
     const radius = Math.ceil(this.params.perceptionRadius / this.gridSize);
+    const minColumn = Math.max(0, gridX - radius);
+    const maxColumn = Math.min(this.gridColumns - 1, gridX + radius);
+    const minRow = Math.max(0, gridY - radius);
+    const maxRow = Math.min(this.gridRows - 1, gridY + radius);
+    const perceptionSquared = this.params.perceptionRadius * this.params.perceptionRadius;
+    const stickDistance = this.params.particleSize * 3;
+    const reachSquared = Math.max(perceptionSquared, stickDistance * stickDistance);
 
     // Check for nearby stuck particles
     let hasNearbyStuck = false;
 
-    for (let dy = -radius; dy <= radius; dy++) {
-      for (let dx = -radius; dx <= radius; dx++) {
-        const key = `${gridX + dx},${gridY + dy}`;
-        const cellParticles = this.grid.get(key);
-        if (!cellParticles) continue;
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const cell = row * this.gridColumns + column;
+        const end = this.cellStart[cell + 1];
 
-        cellParticles.forEach(other => {
-          if (other === particle) return;
+        for (let k = this.cellStart[cell]; k < end; k++) {
+          const j = this.cellParticles[k];
+          if (j === i) continue;
 
-          const dx = other.x - particle.x;
-          const dy = other.y - particle.y;
+          const dx = p.x[j] - px;
+          const dy = p.y[j] - py;
           const distanceSquared = dx * dx + dy * dy;
+          if (distanceSquared >= reachSquared) continue;
           const distance = Math.sqrt(distanceSquared);
 
           // Check for sticking
-          if (other.isStuck && distance < this.params.particleSize * 3) {
+          if (p.flags[j] & PARTICLE_STUCK && distance < stickDistance) {
             hasNearbyStuck = true;
           }
 
-          if (distance < this.params.perceptionRadius) {
+          // Flocking only happens within a species
+          if (distance < this.params.perceptionRadius && p.species[j] === species) {
             // Alignment and Cohesion
-            alignmentX += other.vx!;
-            alignmentY += other.vy!;
-            cohesionX += other.x;
-            cohesionY += other.y;
+            alignmentX += p.vx[j];
+            alignmentY += p.vy[j];
+            cohesionX += p.x[j];
+            cohesionY += p.y[j];
             
             // Separation with smooth falloff
             if (distance > 0) {
@@ -173,52 +381,56 @@ export class SimulationEngine {
             
             flockCount++;
           }
-        });
+        }
       }
     }
 
-    // Handle sticking probability
-    if (hasNearbyStuck && Math.random() < this.params.stickingProbability) {
-      particle.isStuck = true;
-      return { vx: 0, vy: 0 };
-    }
-
-    // Handle release probability for stuck particles
-    if (particle.isStuck && Math.random() < this.params.releaseProbability) {
-      particle.isStuck = false;
+    // Handle sticking probability. A freshly released particle first has to
+    // get clear of the cluster, or it would re-attach on the next step.
+    if (hasNearbyStuck && p.age[i] > this.releaseCooldown(moveSpeed) && this.random.next() < this.params.stickingProbability) {
+      p.flags[i] |= PARTICLE_STUCK;
+      p.age[i] = 0;
+      p.vx[i] = 0;
+      p.vy[i] = 0;
+      return;
     }
 
     // Calculate chemical sensing forces
-    const sensors = this.sense(particle);
-    const [leftSensor, centerSensor, rightSensor] = sensors;
+    this.sense(i);
+    const leftSensor = this.sensorValues[0];
+    const centerSensor = this.sensorValues[1];
+    const rightSensor = this.sensorValues[2];
     const maxSignal = Math.max(leftSensor, centerSensor, rightSensor);
+    const minSignal = Math.min(leftSensor, centerSensor, rightSensor);
+    const speed = moveSpeed;
     
-    let chemicalVx = particle.vx!;
-    let chemicalVy = particle.vy!;
+    let chemicalVx = p.vx[i];
+    let chemicalVy = p.vy[i];
 
-    if (maxSignal > 0) {
+    if (maxSignal > 0 || minSignal < 0) {
       if (centerSensor > leftSensor && centerSensor > rightSensor) {
-        // Continue current direction with boost
-        const boost = 1 + centerSensor * 0.5;
+        // Continue current direction, boosted by attractant but never
+        // reversed when the least repellent reading is straight ahead
+        const boost = 1 + Math.max(0, centerSensor) * 0.5;
         chemicalVx *= boost;
         chemicalVy *= boost;
       } else if (leftSensor > rightSensor) {
         // Turn left
-        const angle = particle.angle - this.params.turnSpeed;
-        chemicalVx = Math.cos(angle) * particle.speed;
-        chemicalVy = Math.sin(angle) * particle.speed;
+        const angle = p.angle[i] - turnSpeed;
+        chemicalVx = Math.cos(angle) * speed;
+        chemicalVy = Math.sin(angle) * speed;
       } else {
         // Turn right
-        const angle = particle.angle + this.params.turnSpeed;
-        chemicalVx = Math.cos(angle) * particle.speed;
-        chemicalVy = Math.sin(angle) * particle.speed;
+        const angle = p.angle[i] + turnSpeed;
+        chemicalVx = Math.cos(angle) * speed;
+        chemicalVy = Math.sin(angle) * speed;
       }
     } else {
       // Random walk
-      const randomAngle = (Math.random() - 0.5) * this.params.turnSpeed;
-      const angle = particle.angle + randomAngle;
-      chemicalVx = Math.cos(angle) * particle.speed;
-      chemicalVy = Math.sin(angle) * particle.speed;
+      const randomAngle = (this.random.next() - 0.5) * turnSpeed;
+      const angle = p.angle[i] + randomAngle;
+      chemicalVx = Math.cos(angle) * speed;
+      chemicalVy = Math.sin(angle) * speed;
     }
 
     // Combine forces
@@ -230,8 +442,8 @@ export class SimulationEngine {
       alignmentX = (alignmentX / flockCount) * this.params.alignmentForce;
       alignmentY = (alignmentY / flockCount) * this.params.alignmentForce;
 
-      cohesionX = ((cohesionX / flockCount - particle.x) / this.params.perceptionRadius) * this.params.cohesionForce;
-      cohesionY = ((cohesionY / flockCount - particle.y) / this.params.perceptionRadius) * this.params.cohesionForce;
+      cohesionX = ((cohesionX / flockCount - px) / this.params.perceptionRadius) * this.params.cohesionForce;
+      cohesionY = ((cohesionY / flockCount - py) / this.params.perceptionRadius) * this.params.cohesionForce;
 
       separationX *= this.params.separationForce / flockCount;
       separationY *= this.params.separationForce / flockCount;
@@ -242,169 +454,735 @@ export class SimulationEngine {
     }
 
     // Normalize final velocity
-    const speed = Math.sqrt(vx * vx + vy * vy);
-    if (speed > 0) {
-      vx = (vx / speed) * this.params.moveSpeed;
-      vy = (vy / speed) * this.params.moveSpeed;
+    const finalSpeed = Math.sqrt(vx * vx + vy * vy);
+    if (finalSpeed > 0) {
+      vx = (vx / finalSpeed) * moveSpeed;
+      vy = (vy / finalSpeed) * moveSpeed;
     }
 
-    return { vx, vy };
+    p.vx[i] = vx;
+    p.vy[i] = vy;
   }
 
-  private updateParticle(particle: Particle) {
-    // Skip update for stuck particles
-    if (particle.isStuck) return;
+  /** Steps a released particle travels before it may stick again: twice the sticking distance. */
+  private releaseCooldown(moveSpeed: number): number {
+    const stickDistance = this.params.particleSize * 3;
+    return moveSpeed > 0 ? Math.ceil((stickDistance * 2) / moveSpeed) : 0;
+  }
 
-    // Calculate combined forces
-    const { vx, vy } = this.calculateForces(particle);
-    particle.vx = vx;
-    particle.vy = vy;
-    particle.angle = Math.atan2(vy, vx);
-    particle.speed = this.params.moveSpeed;
+  /**
+   * Chance that stuck particle i detaches this step. The base rate halves
+   * every `releaseAgeHalfLife` steps the bond has held, and each stuck
+   * neighbour within sticking distance scales it by `1 - releaseNeighborFactor`,
+   * so cluster tips erode before well-connected interiors.
+   */
+  private releaseChance(i: number): number {
+    const { releaseProbability, releaseAgeHalfLife, releaseNeighborFactor } = this.params;
+    let chance = releaseProbability;
+
+    if (releaseAgeHalfLife > 0) {
+      chance *= Math.pow(0.5, this.particles.age[i] / releaseAgeHalfLife);
+    }
+    if (releaseNeighborFactor > 0) {
+      chance *= Math.pow(1 - Math.min(1, releaseNeighborFactor), this.countStuckNeighbors(i));
+    }
+    return chance;
+  }
+
+  private countStuckNeighbors(i: number): number {
+    const p = this.particles;
+    const px = p.x[i];
+    const py = p.y[i];
+    const stickDistance = this.params.particleSize * 3;
+    const stickSquared = stickDistance * stickDistance;
+    const reach = Math.ceil(stickDistance / this.gridSize);
+    const gridX = Math.floor(px / this.gridSize);
+    const gridY = Math.floor(py / this.gridSize);
+    let count = 0;
+
+    for (let row = Math.max(0, gridY - reach); row <= Math.min(this.gridRows - 1, gridY + reach); row++) {
+      for (let column = Math.max(0, gridX - reach); column <= Math.min(this.gridColumns - 1, gridX + reach); column++) {
+        const cell = row * this.gridColumns + column;
+        const end = this.cellStart[cell + 1];
+        for (let k = this.cellStart[cell]; k < end; k++) {
+          const j = this.cellParticles[k];
+          if (j === i || !(p.flags[j] & PARTICLE_STUCK)) continue;
+          const dx = p.x[j] - px;
+          const dy = p.y[j] - py;
+          if (dx * dx + dy * dy < stickSquared) count++;
+        }
+      }
+    }
+    return count;
+  }
+
+  /** Rolls for release of stuck particle i; a released particle leaves on a random heading. */
+  private updateStuckParticle(i: number): void {
+    const p = this.particles;
+    if (p.flags[i] & PARTICLE_PINNED || !(this.params.releaseProbability > 0)) return;
+
+    if (this.random.next() < this.releaseChance(i)) {
+      const angle = this.random.next() * Math.PI * 2;
+      const { moveSpeed } = this.species[p.species[i]];
+      p.flags[i] &= ~PARTICLE_STUCK;
+      p.age[i] = 0;
+      p.angle[i] = angle;
+      p.vx[i] = Math.cos(angle) * moveSpeed;
+      p.vy[i] = Math.sin(angle) * moveSpeed;
+    }
+  }
 
-    // Update position
-    particle.x += particle.vx;
-    particle.y += particle.vy;
+  private updateParticle(i: number) {
+    const p = this.particles;
+    if (p.age[i] < MAX_AGE) p.age[i]++;
 
-    // Wrap around boundaries
-    particle.x = (particle.x + this.width) % this.width;
-    particle.y = (particle.y + this.height) % this.height;
+    // Stuck particles don't move, they can only come loose
+    if (p.flags[i] & PARTICLE_STUCK) {
+      this.updateStuckParticle(i);
+      return;
+    }
 
-    // Deposit chemical with radius based on particle size
+    // Calculate combined forces
+    this.calculateForces(i);
+    p.angle[i] = Math.atan2(p.vy[i], p.vx[i]);
+
+    this.moveParticle(i);
+    if (this.hasConsumableFood) this.consumeFood(i);
+
+    // Deposit chemical into the species' own plane, with radius based on particle size
     const radius = Math.max(1, Math.floor(this.params.particleSize));
-    const depositValue = this.params.chemicalDepositRate / (radius * radius);
+    const depositValue = this.species[p.species[i]].chemicalDepositRate / (radius * radius);
+    const plane = this.chemicalField.subarray(p.species[i] * this.width * this.height);
     
     for (let dy = -radius; dy <= radius; dy++) {
+      const py = this.boundaryIndex(Math.floor(p.y[i] + dy), this.height);
+      if (py < 0) continue;
       for (let dx = -radius; dx <= radius; dx++) {
         if (dx * dx + dy * dy <= radius * radius) {
-          const px = Math.floor(particle.x + dx);
-          const py = Math.floor(particle.y + dy);
-          if (px >= 0 && px < this.width && py >= 0 && py < this.height) {
-            const idx = py * this.width + px;
-            if (idx >= 0 && idx < this.chemicalField.length) {
-              this.chemicalField[idx] = Math.min(1.0, this.chemicalField[idx] + depositValue);
-            }
+          const px = this.boundaryIndex(Math.floor(p.x[i] + dx), this.width);
+          const idx = py * this.width + px;
+          if (px >= 0 && !this.obstacles[idx]) {
+            plane[idx] = Math.min(1.0, plane[idx] + depositValue);
+          }
+        }
+      }
+    }
+  }
+
+  /** Moves particle i by its velocity, applying the boundary mode if it leaves the field. */
+  private moveParticle(i: number): void {
+    const p = this.particles;
+    const { width, height } = this;
+    let x = p.x[i] + p.vx[i];
+    let y = p.y[i] + p.vy[i];
+
+    if (x < 0 || x >= width || y < 0 || y >= height) {
+      switch (this.params.boundaryMode) {
+        case 'reflect':
+          // Bounce off the edge like a billiard ball
+          if (x < 0 || x >= width) {
+            x = x < 0 ? -x : 2 * width - x;
+            p.vx[i] = -p.vx[i];
           }
+          if (y < 0 || y >= height) {
+            y = y < 0 ? -y : 2 * height - y;
+            p.vy[i] = -p.vy[i];
+          }
+          p.angle[i] = Math.atan2(p.vy[i], p.vx[i]);
+          break;
+        case 'absorb': {
+          // The edge is a sink: the particle is lost and a new one enters at random
+          x = this.random.next() * width;
+          y = this.random.next() * height;
+          const angle = this.random.next() * Math.PI * 2;
+          const { moveSpeed } = this.species[p.species[i]];
+          p.angle[i] = angle;
+          p.vx[i] = Math.cos(angle) * moveSpeed;
+          p.vy[i] = Math.sin(angle) * moveSpeed;
+          break;
         }
+        case 'wall':
+          // Solid edge: the particle stays put and turns around
+          x = p.x[i];
+          y = p.y[i];
+          p.vx[i] = -p.vx[i];
+          p.vy[i] = -p.vy[i];
+          p.angle[i] = Math.atan2(p.vy[i], p.vx[i]);
+          break;
+        default:
+          x = this.wrap(x, width);
+          y = this.wrap(y, height);
       }
     }
+
+    // Obstacles block like solid walls, but a particle that was painted over
+    // may still walk out
+    if (this.hasObstacles && this.isObstacle(x, y) && !this.isObstacle(p.x[i], p.y[i])) {
+      x = p.x[i];
+      y = p.y[i];
+      p.vx[i] = -p.vx[i];
+      p.vy[i] = -p.vy[i];
+      p.angle[i] = Math.atan2(p.vy[i], p.vx[i]);
+    }
+
+    // Positions are stored as float32, which can round a coordinate just
+    // below the edge up onto it
+    p.x[i] = x;
+    p.y[i] = y;
+    if (p.x[i] >= width) p.x[i] = Math.max(0, width - EDGE_MARGIN);
+    if (p.y[i] >= height) p.y[i] = Math.max(0, height - EDGE_MARGIN);
   }
 
-  private sense(particle: Particle): number[] {
-    const sensorAngle = this.params.sensorAngle;
-    const sensorDistance = this.params.sensorDistance * this.params.particleSize;
-    const sensors: number[] = [];
+  /**
+   * Samples the left, center and right sensors into `sensorValues`. Each
+   * reading sums every species' trail, weighted by the interaction matrix,
+   * and the food plane, which attracts (or repels) every species alike.
+   */
+  private sense(i: number): void {
+    const p = this.particles;
+    const species = this.species[p.species[i]];
+    const sensorAngle = species.sensorAngle;
+    const sensorDistance = species.sensorDistance * this.params.particleSize;
+    const planeSize = this.width * this.height;
+    const weightsStart = p.species[i] * this.channels;
 
-    for (let i = -1; i <= 1; i++) {
-      const angle = particle.angle + i * sensorAngle;
-      const sensorX = particle.x + Math.cos(angle) * sensorDistance;
-      const sensorY = particle.y + Math.sin(angle) * sensorDistance;
+    for (let s = -1; s <= 1; s++) {
+      const angle = p.angle[i] + s * sensorAngle;
+      const sensorX = p.x[i] + Math.cos(angle) * sensorDistance;
+      const sensorY = p.y[i] + Math.sin(angle) * sensorDistance;
       
-      if (sensorX >= 0 && sensorX < this.width && sensorY >= 0 && sensorY < this.height) {
-        const idx = Math.floor(sensorY) * this.width + Math.floor(sensorX);
-        if (idx >= 0 && idx < this.chemicalField.length) {
-          sensors.push(this.chemicalField[idx]);
+      const cellX = this.boundaryIndex(Math.floor(sensorX), this.width);
+      const cellY = this.boundaryIndex(Math.floor(sensorY), this.height);
+
+      if (cellX >= 0 && cellY >= 0) {
+        const idx = cellY * this.width + cellX;
+        let value = 0;
+        if (this.obstacles[idx]) {
+          value = WALL_SIGNAL;
         } else {
-          sensors.push(0);
+          for (let c = 0; c < this.channels; c++) {
+            const weight = this.interactions[weightsStart + c];
+            if (weight !== 0) value += weight * this.chemicalField[c * planeSize + idx];
+          }
+          value += this.chemicalField[this.channels * planeSize + idx];
         }
+        this.sensorValues[s + 1] = value;
       } else {
-        sensors.push(0);
+        // Absorbing edges read as empty, solid walls as repellent
+        this.sensorValues[s + 1] = this.params.boundaryMode === 'wall' ? WALL_SIGNAL : 0;
       }
     }
-
-    return sensors;
   }
 
   public update() {
     this.updateGrid();
-    this.particles.forEach(particle => this.updateParticle(particle));
+    for (let i = 0; i < this.particles.count; i++) {
+      this.updateParticle(i);
+    }
     this.diffuseChemicals();
+    this.step++;
   }
 
-  private diffuseChemicals() {
-    const newField = new Float32Array(this.width * this.height);
+  /** Calls `visit` with the index of every open cell a food source covers. */
+  private forEachFoodCell(food: FoodSource, visit: (idx: number) => void): void {
+    if (food.points && food.points.length > 1) {
+      this.forEachStrokeCell(food, visit);
+      return;
+    }
 
-    // Apply food sources
-    this.foodSources.forEach(food => {
-      const radiusSquared = food.radius * food.radius;
-      const effectiveRadius = Math.max(1, Math.floor(food.radius * this.params.particleSize));
-      for (let dy = -effectiveRadius; dy <= effectiveRadius; dy++) {
-        for (let dx = -effectiveRadius; dx <= effectiveRadius; dx++) {
-          const distanceSquared = (dx * dx + dy * dy) / (this.params.particleSize * this.params.particleSize);
-          if (distanceSquared <= radiusSquared) {
-            const px = Math.floor(food.x + dx);
-            const py = Math.floor(food.y + dy);
-            if (px >= 0 && px < this.width && py >= 0 && py < this.height) {
-              const idx = py * this.width + px;
-              if (idx >= 0 && idx < this.chemicalField.length) {
-                this.chemicalField[idx] = food.strength;
-              }
-            }
+    const radiusSquared = food.radius * food.radius;
+    const effectiveRadius = Math.max(1, Math.floor(food.radius * this.params.particleSize));
+    for (let dy = -effectiveRadius; dy <= effectiveRadius; dy++) {
+      for (let dx = -effectiveRadius; dx <= effectiveRadius; dx++) {
+        const distanceSquared = (dx * dx + dy * dy) / (this.params.particleSize * this.params.particleSize);
+        if (distanceSquared <= radiusSquared) {
+          const px = Math.floor(food.x + dx);
+          const py = Math.floor(food.y + dy);
+          const idx = py * this.width + px;
+          if (px >= 0 && px < this.width && py >= 0 && py < this.height && !this.obstacles[idx]) {
+            visit(idx);
           }
         }
       }
-    });
+    }
+  }
 
-    // Diffuse and decay with radius based on particle size
-    const radius = Math.max(1, Math.floor(this.params.particleSize));
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const idx = y * this.width + x;
-        let sum = 0;
-        let count = 0;
-
-        for (let dy = -radius; dy <= radius; dy++) {
-          for (let dx = -radius; dx <= radius; dx++) {
-            if (dx * dx + dy * dy <= radius * radius) {
-              const nx = (x + dx + this.width) % this.width;
-              const ny = (y + dy + this.height) % this.height;
-              const nidx = ny * this.width + nx;
-              if (nidx >= 0 && nidx < this.chemicalField.length) {
-                sum += this.chemicalField[nidx];
-                count++;
-              }
-            }
-          }
+  /** Visits the cells whose centers lie within the scaled radius of a stroke. */
+  private forEachStrokeCell(food: FoodSource, visit: (idx: number) => void): void {
+    const radius = food.radius * this.params.particleSize;
+    const bounds = foodSourceBounds(food);
+    const minX = Math.max(0, Math.floor(bounds.minX - radius));
+    const maxX = Math.min(this.width - 1, Math.ceil(bounds.maxX + radius));
+    const minY = Math.max(0, Math.floor(bounds.minY - radius));
+    const maxY = Math.min(this.height - 1, Math.ceil(bounds.maxY + radius));
+
+    for (let py = minY; py <= maxY; py++) {
+      for (let px = minX; px <= maxX; px++) {
+        const idx = py * this.width + px;
+        if (!this.obstacles[idx] && distanceToFoodSource(food, px + 0.5, py + 0.5) <= radius) {
+          visit(idx);
         }
+      }
+    }
+  }
+
+  /** The plane after the species' own, which holds food and nothing else. */
+  private foodPlane(): Float32Array {
+    return this.chemicalField.subarray(this.channels * this.width * this.height);
+  }
 
-        if (count > 0) {
-          newField[idx] = (sum / count) * this.params.diffusionRate + 
-                         this.chemicalField[idx] * (1 - this.params.diffusionRate);
-          newField[idx] *= (1 - this.params.decayRate);
+  /**
+   * Food is written into the food plane, kept apart from the trails so the
+   * interaction matrix doesn't weight it. Consumable sources emit in
+   * proportion to what is left in their reservoir.
+   */
+  private applyFoodSources() {
+    const plane = this.foodPlane();
+    const foodMap = this.foodMap;
+    if (foodMap) {
+      for (let idx = 0; idx < plane.length; idx++) {
+        const value = foodMap[idx];
+        if (value !== 0 && !this.obstacles[idx]) plane[idx] = value;
+      }
+    }
+
+    this.foodSources.forEach(food => {
+      const reservoir = food.reservoir;
+      if (reservoir && reservoir.level <= 0) return;
+      const strength = reservoir ? food.strength * (reservoir.level / reservoir.capacity) : food.strength;
+
+      this.forEachFoodCell(food, idx => {
+        plane[idx] = strength;
+      });
+    });
+  }
+
+  /**
+   * Advances the regrow timer of empty reservoirs, refilling them once it
+   * runs out, and drops empty sources that don't regrow.
+   */
+  private updateFoodReservoirs(): void {
+    const count = this.foodSources.length;
+    this.foodSources = this.foodSources.filter(food => {
+      const reservoir = food.reservoir;
+      if (!reservoir || reservoir.level > 0) return true;
+      if (reservoir.regrowTime <= 0) return false;
+
+      if (++reservoir.emptySteps >= reservoir.regrowTime) {
+        reservoir.level = reservoir.capacity;
+        reservoir.emptySteps = 0;
+      }
+      return true;
+    });
+    if (this.foodSources.length !== count) this.foodSourcesChanged();
+  }
+
+  private foodSourcesChanged(): void {
+    this.foodOwnerDirty = true;
+    this.hasConsumableFood = this.foodSources.some(food => food.reservoir);
+  }
+
+  private updateFoodOwners(): void {
+    this.foodOwnerDirty = false;
+    this.foodOwner.fill(0);
+    this.foodSources.forEach((food, index) => {
+      if (!food.reservoir) return;
+      this.forEachFoodCell(food, idx => {
+        this.foodOwner[idx] = index + 1;
+      });
+    });
+  }
+
+  /** Lets particle i eat from the consumable source under it, if any. */
+  private consumeFood(i: number): void {
+    if (this.foodOwnerDirty) this.updateFoodOwners();
+
+    const p = this.particles;
+    const owner = this.foodOwner[Math.floor(p.y[i]) * this.width + Math.floor(p.x[i])];
+    const reservoir = owner > 0 ? this.foodSources[owner - 1].reservoir : undefined;
+    if (reservoir && reservoir.level > 0) {
+      reservoir.level = Math.max(0, reservoir.level - reservoir.consumptionRate);
+    }
+  }
+
+  private wrap(index: number, size: number): number {
+    return ((index % size) + size) % size;
+  }
+
+  /**
+   * Maps a cell coordinate onto the field according to the boundary mode.
+   * Returns -1 when the coordinate has no cell (absorbing or solid edges).
+   */
+  private boundaryIndex(index: number, size: number): number {
+    if (index >= 0 && index < size) return index;
+
+    switch (this.params.boundaryMode) {
+      case 'wrap':
+        return this.wrap(index, size);
+      case 'reflect': {
+        const mirrored = this.wrap(index, 2 * size);
+        return mirrored < size ? mirrored : 2 * size - mirrored - 1;
+      }
+      default:
+        return -1;
+    }
+  }
+
+  /**
+   * Horizontal pass of the box blur: writes the sum of each cell's row window
+   * into blurBuffer. Cells past the edge come from the boundary mode, or are
+   * `outsideValue` where the mode has none.
+   */
+  private blurRows(source: Float32Array, radius: number, outsideValue: number): void {
+    const { width, height } = this;
+    const blurred = this.blurBuffer;
+    const kernelSize = 2 * radius + 1;
+
+    if (this.lineBuffer.length < width + kernelSize) {
+      this.lineBuffer = new Float32Array(width + kernelSize);
+    }
+    const line = this.lineBuffer;
+
+    // Padding offsets are resolved once so the sliding loop needs no edge checks
+    const padding: number[] = [];
+    for (let i = 0; i < kernelSize; i++) {
+      const x = i < radius ? i - radius : width + i - radius;
+      padding.push(this.boundaryIndex(x, width));
+    }
+
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * width;
+
+      line.set(source.subarray(rowStart, rowStart + width), radius);
+      for (let i = 0; i < kernelSize; i++) {
+        const lineIndex = i < radius ? i : width + i;
+        line[lineIndex] = padding[i] < 0 ? outsideValue : source[rowStart + padding[i]];
+      }
+
+      let sum = 0;
+      for (let i = 0; i < kernelSize; i++) {
+        sum += line[i];
+      }
+      for (let x = 0; x < width; x++) {
+        blurred[rowStart + x] = sum;
+        sum += line[x + kernelSize] - line[x];
+      }
+    }
+  }
+
+  /**
+   * Vertical pass of the box blur over blurBuffer. `emitRow` is called for
+   * every row with the window sums of each column centered on that row.
+   */
+  private slideColumns(radius: number, outsideValue: number, emitRow: (y: number, columnSums: Float64Array) => void): void {
+    const { width, height } = this;
+    const blurred = this.blurBuffer;
+    const columnSums = this.columnSums;
+    const outsideRowSum = outsideValue * (2 * radius + 1);
+
+    const addRow = (row: number, sign: number) => {
+      if (row < 0) {
+        if (outsideRowSum === 0) return;
+        for (let x = 0; x < width; x++) {
+          columnSums[x] += sign * outsideRowSum;
         }
+        return;
       }
+      const rowStart = row * width;
+      for (let x = 0; x < width; x++) {
+        columnSums[x] += sign * blurred[rowStart + x];
+      }
+    };
+
+    columnSums.fill(0);
+    for (let dy = -radius; dy <= radius; dy++) {
+      addRow(this.boundaryIndex(dy, height), 1);
+    }
+
+    for (let y = 0; y < height; y++) {
+      emitRow(y, columnSums);
+      addRow(this.boundaryIndex(y + radius + 1, height), 1);
+      addRow(this.boundaryIndex(y - radius, height), -1);
+    }
+  }
+
+  /**
+   * Recomputes the reciprocal number of open cells under each cell's kernel.
+   * Obstacles and solid walls don't count, so nothing diffuses into them;
+   * absorbing edges do, so chemical drains away there.
+   */
+  private updateKernelWeights(radius: number): void {
+    const key = `${radius}:${this.params.boundaryMode}:${this.obstacleVersion}`;
+    if (key === this.kernelWeightsKey) return;
+    this.kernelWeightsKey = key;
+
+    const weights = this.kernelWeights;
+    const obstacles = this.obstacles;
+    const width = this.width;
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] = obstacles[i] ? 0 : 1;
+    }
+
+    const outsideValue = this.params.boundaryMode === 'absorb' ? 1 : 0;
+    this.blurRows(weights, radius, outsideValue);
+    this.slideColumns(radius, outsideValue, (y, columnSums) => {
+      const rowStart = y * width;
+      for (let x = 0; x < width; x++) {
+        const idx = rowStart + x;
+        weights[idx] = obstacles[idx] ? 0 : 1 / columnSums[x];
+      }
+    });
+  }
+
+  private diffuseChemicals() {
+    if (this.hasConsumableFood) this.updateFoodReservoirs();
+    this.applyFoodSources();
+
+    // Separable box blur with radius based on particle size. Both passes
+    // slide running sums, so the cost per cell does not depend on the radius;
+    // the vertical pass blends and decays straight into nextField. Each
+    // plane, the species' and the food plane, diffuses on its own.
+    const width = this.width;
+    const planeSize = width * this.height;
+    const weights = this.kernelWeights;
+    const radius = Math.max(1, Math.floor(this.params.particleSize));
+    const diffusion = this.params.diffusionRate;
+    const retention = 1 - this.params.decayRate;
+
+    this.updateKernelWeights(radius);
+    for (let c = 0; c <= this.channels; c++) {
+      const field = this.chemicalField.subarray(c * planeSize, (c + 1) * planeSize);
+      const next = this.nextField.subarray(c * planeSize, (c + 1) * planeSize);
+
+      this.blurRows(field, radius, 0);
+      this.slideColumns(radius, 0, (y, columnSums) => {
+        const rowStart = y * width;
+        for (let x = 0; x < width; x++) {
+          const idx = rowStart + x;
+          next[idx] = (columnSums[x] * weights[idx] * diffusion + field[idx] * (1 - diffusion)) * retention;
+        }
+      });
     }
 
-    this.chemicalField = newField;
+    const field = this.chemicalField;
+    this.chemicalField = this.nextField;
+    this.nextField = field;
+  }
+
+  public getParams(): SimulationParams {
+    return this.params;
   }
 
   public getState() {
     return {
       particles: this.particles,
-      chemicalField: this.chemicalField
+      chemicalField: this.chemicalField,
+      channels: this.channels
+    };
+  }
+
+  /** Copies the complete state; the snapshot shares no buffers with the engine. */
+  public getSnapshot(): EngineSnapshot {
+    const p = this.particles;
+    const n = p.count;
+    return {
+      width: this.width,
+      height: this.height,
+      step: this.step,
+      randomState: this.random.getState(),
+      params: { ...this.params },
+      channels: this.channels,
+      chemicalField: this.chemicalField.slice(),
+      particles: {
+        count: n,
+        x: p.x.slice(0, n),
+        y: p.y.slice(0, n),
+        vx: p.vx.slice(0, n),
+        vy: p.vy.slice(0, n),
+        angle: p.angle.slice(0, n),
+        flags: p.flags.slice(0, n),
+        age: p.age.slice(0, n),
+        species: p.species.slice(0, n)
+      },
+      foodSources: this.foodSources.map(cloneFoodSource),
+      obstacles: this.obstacles.slice(),
+      foodMap: this.foodMap && this.foodMap.slice()
     };
   }
 
-  public addFoodSource(x: number, y: number, radius: number, strength: number = 1.0) {
-    this.foodSources.push({ x, y, radius, strength });
+  /**
+   * Replaces the whole state with a snapshot, after which the run continues
+   * exactly as it would have from the moment of capture. The snapshot must
+   * have been taken at this engine's size.
+   */
+  public restoreSnapshot(snapshot: EngineSnapshot): void {
+    // Everything is checked first, so a snapshot that doesn't fit leaves the engine as it was
+    if (snapshot.width !== this.width || snapshot.height !== this.height) {
+      throw new Error(`Snapshot is ${snapshot.width}x${snapshot.height}, the engine ${this.width}x${this.height}`);
+    }
+    const planeSize = this.width * this.height;
+    const channels = speciesCount(snapshot.params);
+    if (snapshot.chemicalField.length !== planeSize * (channels + 1)) {
+      throw new Error(`Snapshot field has ${snapshot.channels} channels, its params ${channels}`);
+    }
+    const source = snapshot.particles;
+    const arrays = [source.x, source.y, source.vx, source.vy, source.angle, source.flags, source.age, source.species];
+    if (arrays.some(array => array.length !== source.count)) {
+      throw new Error(`Snapshot particle arrays don't hold its ${source.count} particles`);
+    }
+    if (source.species.some(species => species >= channels)) {
+      throw new Error('Snapshot has particles of a species its params don\'t have');
+    }
+    if (snapshot.obstacles.length !== planeSize || (snapshot.foodMap && snapshot.foodMap.length !== planeSize)) {
+      throw new Error('Snapshot walls or food map don\'t match its size');
+    }
+
+    this.params = { ...snapshot.params };
+    this.resolveSpecies();
+    this.chemicalField.set(snapshot.chemicalField);
+
+    const p = this.particles;
+    p.count = 0;
+    this.ensureCapacity(source.count);
+    p.x.set(source.x);
+    p.y.set(source.y);
+    p.vx.set(source.vx);
+    p.vy.set(source.vy);
+    p.angle.set(source.angle);
+    p.flags.set(source.flags);
+    p.age.set(source.age);
+    p.species.set(source.species);
+    p.count = source.count;
+
+    this.foodSources = snapshot.foodSources.map(cloneFoodSource);
+    this.foodSourcesChanged();
+    this.foodMap = snapshot.foodMap && snapshot.foodMap.slice();
+    this.obstacles.set(snapshot.obstacles);
+    this.obstacleVersion++;
+    this.hasObstacles = this.obstacles.includes(1);
+
+    this.random.setState(snapshot.randomState);
+    this.step = snapshot.step;
+  }
+
+  public addFoodSource(x: number, y: number, radius: number, strength: number = 1.0, options: FoodSourceOptions = {}) {
+    const { id, points, reservoir, color, opacity } = options;
+    this.foodSources.push({
+      id: id ?? createFoodId(),
+      x,
+      y,
+      points: points && points.map(point => ({ ...point })),
+      radius,
+      strength,
+      color,
+      opacity,
+      reservoir: reservoir && { ...reservoir, level: reservoir.capacity, emptySteps: 0 }
+    });
+    this.foodSourcesChanged();
   }
 
   public removeFoodSourcesNear(x: number, y: number, radius: number): void {
-    const radiusSquared = radius * radius;
-    this.foodSources = this.foodSources.filter(food => {
-      const dx = food.x - x;
-      const dy = food.y - y;
-      const distanceSquared = dx * dx + dy * dy;
-      return distanceSquared > radiusSquared;
+    this.foodSources = this.foodSources.filter(food => distanceToFoodSource(food, x, y) > radius);
+    this.foodSourcesChanged();
+  }
+
+  public removeFoodSource(id: string): void {
+    this.foodSources = this.foodSources.filter(food => food.id !== id);
+    this.foodSourcesChanged();
+  }
+
+  public updateFoodSource(id: string, changes: FoodSourceChanges): void {
+    const food = this.foodSources.find(source => source.id === id);
+    if (!food) return;
+
+    const dx = (changes.x ?? food.x) - food.x;
+    const dy = (changes.y ?? food.y) - food.y;
+    food.points?.forEach(point => {
+      point.x += dx;
+      point.y += dy;
     });
+    Object.assign(food, changes);
+    this.foodSourcesChanged();
+  }
+
+  /** Appends a point to a stroke; a disc becomes a stroke starting at its center. */
+  public extendFoodStroke(id: string, x: number, y: number): void {
+    const food = this.foodSources.find(source => source.id === id);
+    if (!food) return;
+
+    // Grown in place: a long drag would otherwise copy the stroke on every move
+    if (!food.points) food.points = [{ x: food.x, y: food.y }];
+    food.points.push({ x, y });
+    this.foodSourcesChanged();
   }
 
   public clearFoodSources(): void {
     this.foodSources = [];
-    this.chemicalField = new Float32Array(this.width * this.height);
+    this.foodMap = null;
+    this.foodPlane().fill(0);
+    this.foodSourcesChanged();
   }
 
-  public getFoodSources() {
+  /**
+   * Replaces the image food map, one value per cell, or removes it with
+   * `null`. Maps that don't match the field size are ignored.
+   */
+  public setFoodMap(map: Float32Array | null): void {
+    if (map && map.length !== this.width * this.height) return;
+    if (this.foodMap && !map) this.foodPlane().fill(0);
+    this.foodMap = map;
+  }
+
+  public getFoodSources(): FoodSource[] {
     return this.foodSources;
   }
+
+  private isObstacle(x: number, y: number): boolean {
+    const cellX = Math.floor(x);
+    const cellY = Math.floor(y);
+    if (cellX < 0 || cellX >= this.width || cellY < 0 || cellY >= this.height) return false;
+    return this.obstacles[cellY * this.width + cellX] === 1;
+  }
+
+  /** Sets every cell within `radius` of (x, y) to `value`. */
+  private fillObstacleDisc(x: number, y: number, radius: number, value: 0 | 1): void {
+    const r = Math.max(0, Math.ceil(radius));
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        const px = Math.floor(x + dx);
+        const py = Math.floor(y + dy);
+        if (px < 0 || px >= this.width || py < 0 || py >= this.height) continue;
+        const idx = py * this.width + px;
+        this.obstacles[idx] = value;
+        if (value) {
+          for (let c = 0; c <= this.channels; c++) {
+            this.chemicalField[c * this.width * this.height + idx] = 0;
+          }
+        }
+      }
+    }
+    this.obstacleVersion++;
+    this.foodOwnerDirty = true;
+    this.hasObstacles = this.obstacles.includes(1);
+  }
+
+  public paintObstacle(x: number, y: number, radius: number): void {
+    this.fillObstacleDisc(x, y, radius, 1);
+  }
+
+  public eraseObstacles(x: number, y: number, radius: number): void {
+    this.fillObstacleDisc(x, y, radius, 0);
+  }
+
+  public clearObstacles(): void {
+    this.obstacles.fill(0);
+    this.obstacleVersion++;
+    this.foodOwnerDirty = true;
+    this.hasObstacles = false;
+  }
+
+  public getObstacles(): { mask: Uint8Array; version: number } {
+    return { mask: this.obstacles, version: this.obstacleVersion };
+  }
 }
\ No newline at end of file
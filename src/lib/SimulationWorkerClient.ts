@@ -0,0 +1,179 @@
+import { SimulationParams, FoodSourceOptions, FoodSourceChanges, EngineSnapshot } from './types';
+import { WorkerRequest, WorkerResponse, SimulationFrame } from './workerProtocol';
+
+interface PendingSnapshot {
+  resolve: (snapshot: EngineSnapshot) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread handle on the simulation worker. Commands are posted in order,
+ * and at most one frame is in flight so a slow engine never queues up work.
+ * Whatever fails in the worker is passed to `onError`; the next frame can be
+ * asked for right away.
+ */
+export class SimulationWorkerClient {
+  private worker: Worker;
+  private framePending = false;
+  private recycledFrame: SimulationFrame | null = null;
+  private onFrame: (frame: SimulationFrame) => void;
+  private onError: (error: Error) => void;
+  private nextSnapshotId = 0;
+  private pendingSnapshots = new Map<number, PendingSnapshot>();
+
+  constructor(
+    width: number,
+    height: number,
+    params: SimulationParams,
+    onFrame: (frame: SimulationFrame) => void,
+    onError: (error: Error) => void
+  ) {
+    this.onFrame = onFrame;
+    this.onError = onError;
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'frame') {
+        this.framePending = false;
+        this.onFrame(response.frame);
+      } else if (response.type === 'snapshot') {
+        this.settleSnapshot(response.requestId, pending => pending.resolve(response.snapshot));
+      } else if (response.type === 'error') {
+        const error = new Error(response.message);
+        if (response.request === 'step') this.framePending = false;
+        if (response.requestId !== undefined) this.settleSnapshot(response.requestId, pending => pending.reject(error));
+        this.onError(error);
+      }
+    };
+    // The worker failed outside a request, or a message couldn't be read:
+    // nothing in flight can be counted on
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'The simulation worker failed'));
+    };
+    this.worker.onmessageerror = () => {
+      this.fail(new Error('A message from the simulation worker could not be read'));
+    };
+    this.post({ type: 'init', width, height, params });
+  }
+
+  private settleSnapshot(requestId: number, settle: (pending: PendingSnapshot) => void): void {
+    const pending = this.pendingSnapshots.get(requestId);
+    this.pendingSnapshots.delete(requestId);
+    if (pending) settle(pending);
+  }
+
+  private rejectSnapshots(error: Error): void {
+    const pending = [...this.pendingSnapshots.values()];
+    this.pendingSnapshots.clear();
+    pending.forEach(snapshot => snapshot.reject(error));
+  }
+
+  private fail(error: Error): void {
+    this.framePending = false;
+    this.rejectSnapshots(error);
+    this.onError(error);
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  /**
+   * Asks the worker for the frame `steps` updates ahead unless one is already
+   * on its way. Returns whether it was asked for.
+   */
+  public requestFrame(steps = 1): boolean {
+    if (this.framePending) return false;
+    this.framePending = true;
+
+    const recycled = this.recycledFrame;
+    this.recycledFrame = null;
+    if (recycled) {
+      this.post(
+        { type: 'step', steps, recycledField: recycled.chemicalField, recycledParticles: recycled.particles },
+        [recycled.chemicalField.buffer, recycled.particles.buffer]
+      );
+    } else {
+      this.post({ type: 'step', steps });
+    }
+    return true;
+  }
+
+  /** Hands a rendered frame back so its buffers can be reused by the worker. */
+  public recycleFrame(frame: SimulationFrame): void {
+    this.recycledFrame = frame;
+  }
+
+  public updateParams(params: SimulationParams): void {
+    this.post({ type: 'updateParams', params });
+  }
+
+  public addFoodSource(x: number, y: number, radius: number, strength: number, options?: FoodSourceOptions): void {
+    this.post({ type: 'addFoodSource', x, y, radius, strength, options });
+  }
+
+  public removeFoodSourcesNear(x: number, y: number, radius: number): void {
+    this.post({ type: 'removeFoodSourcesNear', x, y, radius });
+  }
+
+  public removeFoodSource(id: string): void {
+    this.post({ type: 'removeFoodSource', id });
+  }
+
+  public updateFoodSource(id: string, changes: FoodSourceChanges): void {
+    this.post({ type: 'updateFoodSource', id, changes });
+  }
+
+  public extendFoodStroke(id: string, x: number, y: number): void {
+    this.post({ type: 'extendFoodStroke', id, x, y });
+  }
+
+  public clearFoodSources(): void {
+    this.post({ type: 'clearFoodSources' });
+  }
+
+  /** Transfers the map to the worker; it can't be used afterwards. */
+  public setFoodMap(map: Float32Array | null): void {
+    this.post({ type: 'setFoodMap', map }, map ? [map.buffer] : []);
+  }
+
+  public spawnStickyParticle(x: number, y: number): void {
+    this.post({ type: 'spawnStickyParticle', x, y });
+  }
+
+  public paintObstacle(x: number, y: number, radius: number): void {
+    this.post({ type: 'paintObstacle', x, y, radius });
+  }
+
+  public eraseObstacles(x: number, y: number, radius: number): void {
+    this.post({ type: 'eraseObstacles', x, y, radius });
+  }
+
+  public clearObstacles(): void {
+    this.post({ type: 'clearObstacles' });
+  }
+
+  /** Starts the run over, first switching to `params` when given. */
+  public restartParticles(params?: SimulationParams): void {
+    this.post({ type: 'restartParticles', params });
+  }
+
+  /** Resolves with a copy of the engine state once the worker has handled every earlier command. */
+  public captureSnapshot(): Promise<EngineSnapshot> {
+    const requestId = this.nextSnapshotId++;
+    return new Promise((resolve, reject) => {
+      this.pendingSnapshots.set(requestId, { resolve, reject });
+      this.post({ type: 'captureSnapshot', requestId });
+    });
+  }
+
+  public restoreSnapshot(snapshot: EngineSnapshot): void {
+    this.post({ type: 'restoreSnapshot', snapshot });
+  }
+
+  public terminate(): void {
+    this.worker.terminate();
+    this.rejectSnapshots(new Error('The simulation was stopped'));
+  }
+}
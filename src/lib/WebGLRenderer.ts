@@ -0,0 +1,283 @@
+import { SimulationParams, PARTICLE_STUCK, MAX_SPECIES } from './types';
+import { SimulationFrame, PARTICLE_STRIDE } from './workerProtocol';
+import { hexToRgb } from './color';
+import { speciesColors } from './species';
+import type { Renderer } from './renderer';
+
+// Full-screen triangle generated from gl_VertexID; field row 0 is the top of the canvas
+const FIELD_VERTEX_SHADER = `#version 300 es
+out vec2 vUv;
+void main() {
+  vec2 position = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  vUv = vec2(position.x, 1.0 - position.y);
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// The field texture is an array with one layer per species, then the food
+// layer, so it needs no more than the field's own size in each dimension.
+// Values are signed and colored like colorizeField does for the Canvas2D path.
+const FIELD_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+uniform highp sampler2DArray uField;
+uniform sampler2D uObstacles;
+uniform int uChannels;
+uniform vec3 uFieldColors[${MAX_SPECIES}];
+uniform vec3 uBackgroundColor;
+uniform vec3 uRepellentColor;
+uniform vec3 uWallColor;
+in vec2 vUv;
+out vec4 outColor;
+void main() {
+  if (texture(uObstacles, vUv).r > 0.5) {
+    outColor = vec4(uWallColor, 1.0);
+    return;
+  }
+  float food = texture(uField, vec3(vUv, float(uChannels))).r;
+  vec3 color = uBackgroundColor;
+  float repellent = 0.0;
+  for (int c = 0; c < ${MAX_SPECIES}; c++) {
+    if (c >= uChannels) break;
+    float value = clamp(texture(uField, vec3(vUv, float(c))).r + food, -1.0, 1.0);
+    color += (uFieldColors[c] - uBackgroundColor) * max(value, 0.0);
+    repellent = max(repellent, -value);
+  }
+  color += (uRepellentColor - uBackgroundColor) * repellent;
+  outColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`;
+
+// One instance per particle, expanded into a quad and cut to a disc in the fragment shader
+const PARTICLE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 aCorner;
+layout(location = 1) in vec2 aCenter;
+layout(location = 2) in float aFlags;
+layout(location = 3) in float aSpecies;
+uniform vec2 uResolution;
+uniform float uRadius;
+uniform vec3 uMoldColors[${MAX_SPECIES}];
+out vec2 vCorner;
+out vec3 vColor;
+out float vAlpha;
+void main() {
+  vec2 position = aCenter + aCorner * uRadius;
+  vec2 clip = position / uResolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  vCorner = aCorner;
+  vColor = uMoldColors[clamp(int(aSpecies), 0, ${MAX_SPECIES - 1})];
+  vAlpha = (int(aFlags) & ${PARTICLE_STUCK}) != 0 ? 1.0 : 0.8;
+}`;
+
+const PARTICLE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 vCorner;
+in vec3 vColor;
+in float vAlpha;
+out vec4 outColor;
+void main() {
+  if (dot(vCorner, vCorner) > 1.0) discard;
+  outColor = vec4(vColor * vAlpha, vAlpha);
+}`;
+
+function compileProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram()!;
+  [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]].forEach(([type, source]) => {
+    const shader = gl.createShader(type as number)!;
+    gl.shaderSource(shader, source as string);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+    gl.deleteShader(shader);
+  });
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function createNearestTexture(gl: WebGL2RenderingContext, target: GLenum = gl.TEXTURE_2D): WebGLTexture {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(target, texture);
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+}
+
+/**
+ * Largest texture side this browser's WebGL2 allows, or 0 without WebGL2.
+ * Read on a scratch canvas, since a canvas that has handed out a WebGL
+ * context can't be drawn on with Canvas2D afterwards.
+ */
+function maxTextureSize(): number {
+  const gl = document.createElement('canvas').getContext('webgl2');
+  if (!gl) return 0;
+  const size: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return size;
+}
+
+function toUnitRgb(hex: string): [number, number, number] {
+  const { r, g, b } = hexToRgb(hex);
+  return [r / 255, g / 255, b / 255];
+}
+
+/** Packs one color per species into a `vec3[MAX_SPECIES]` uniform value. */
+function toUnitRgbArray(colors: string[]): Float32Array {
+  const packed = new Float32Array(MAX_SPECIES * 3);
+  colors.slice(0, MAX_SPECIES).forEach((color, i) => packed.set(toUnitRgb(color), i * 3));
+  return packed;
+}
+
+export class WebGLRenderer implements Renderer {
+  public readonly kind = 'webgl2';
+  private canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private fieldProgram: WebGLProgram;
+  private particleProgram: WebGLProgram;
+  private fieldTexture: WebGLTexture;
+  private obstacleTexture: WebGLTexture;
+  private particleVao: WebGLVertexArrayObject;
+  private cornerBuffer: WebGLBuffer;
+  private instanceBuffer: WebGLBuffer;
+  private textureSize = { width: 0, height: 0, layers: 0 };
+  private maxTextureSize: number;
+  private reportedOversize = false;
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+    this.fieldProgram = compileProgram(gl, FIELD_VERTEX_SHADER, FIELD_FRAGMENT_SHADER);
+    this.particleProgram = compileProgram(gl, PARTICLE_VERTEX_SHADER, PARTICLE_FRAGMENT_SHADER);
+
+    // Float textures can't be linearly filtered without an extension, and
+    // one texel per cell is what the Canvas2D path shows anyway
+    this.fieldTexture = createNearestTexture(gl, gl.TEXTURE_2D_ARRAY);
+
+    // The obstacle mask lives on texture unit 1; rows of a one-byte format
+    // aren't 4-byte aligned for odd widths
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.activeTexture(gl.TEXTURE1);
+    this.obstacleTexture = createNearestTexture(gl);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, 1, 1, 0, gl.RED, gl.UNSIGNED_BYTE, new Uint8Array(1));
+    gl.activeTexture(gl.TEXTURE0);
+
+    this.particleVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.particleVao);
+
+    this.cornerBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    const stride = PARTICLE_STRIDE * Float32Array.BYTES_PER_ELEMENT;
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 2, gl.FLOAT, false, stride, 0);
+    gl.vertexAttribDivisor(1, 1);
+    gl.enableVertexAttribArray(2);
+    gl.vertexAttribPointer(2, 1, gl.FLOAT, false, stride, 2 * Float32Array.BYTES_PER_ELEMENT);
+    gl.vertexAttribDivisor(2, 1);
+    gl.enableVertexAttribArray(3);
+    gl.vertexAttribPointer(3, 1, gl.FLOAT, false, stride, 3 * Float32Array.BYTES_PER_ELEMENT);
+    gl.vertexAttribDivisor(3, 1);
+
+    gl.bindVertexArray(null);
+  }
+
+  /** Returns null without WebGL2, or when the canvas is larger than its textures can be. */
+  public static create(canvas: HTMLCanvasElement): WebGLRenderer | null {
+    const maxSize = maxTextureSize();
+    if (canvas.width > maxSize || canvas.height > maxSize) {
+      if (maxSize > 0) console.error(`WebGL2 textures are at most ${maxSize}px, too small for the field; falling back to Canvas2D`);
+      return null;
+    }
+
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+    if (!gl) return null;
+
+    try {
+      return new WebGLRenderer(canvas, gl);
+    } catch (err) {
+      console.error('WebGL2 renderer unavailable, falling back to Canvas2D:', err);
+      return null;
+    }
+  }
+
+  public render(frame: SimulationFrame, params: SimulationParams): void {
+    const { gl, canvas } = this;
+    const { width, height, chemicalField, channels, particles, particleCount } = frame;
+    const colors = speciesColors(params, channels);
+    const layers = channels + 1;
+
+    // A restored snapshot can bring a field bigger than the one this renderer
+    // was checked against, and the canvas can't switch to Canvas2D by then
+    if (width > this.maxTextureSize || height > this.maxTextureSize) {
+      if (!this.reportedOversize) {
+        console.error(`Can't draw a ${width} × ${height} field; WebGL2 textures here are at most ${this.maxTextureSize}px`);
+        this.reportedOversize = true;
+      }
+      return;
+    }
+
+    gl.viewport(0, 0, canvas.width, canvas.height);
+
+    // Upload the field, reallocating the texture only when its size changes
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.fieldTexture);
+    const size = this.textureSize;
+    if (size.width !== width || size.height !== height || size.layers !== layers) {
+      gl.texImage3D(gl.TEXTURE_2D_ARRAY, 0, gl.R32F, width, height, layers, 0, gl.RED, gl.FLOAT, chemicalField);
+      this.textureSize = { width, height, layers };
+    } else {
+      gl.texSubImage3D(gl.TEXTURE_2D_ARRAY, 0, 0, 0, 0, width, height, layers, gl.RED, gl.FLOAT, chemicalField);
+    }
+
+    if (frame.obstacles) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, width, height, 0, gl.RED, gl.UNSIGNED_BYTE, frame.obstacles);
+      gl.activeTexture(gl.TEXTURE0);
+    }
+
+    gl.disable(gl.BLEND);
+    gl.useProgram(this.fieldProgram);
+    gl.uniform1i(gl.getUniformLocation(this.fieldProgram, 'uField'), 0);
+    gl.uniform1i(gl.getUniformLocation(this.fieldProgram, 'uObstacles'), 1);
+    gl.uniform1i(gl.getUniformLocation(this.fieldProgram, 'uChannels'), channels);
+    gl.uniform3fv(gl.getUniformLocation(this.fieldProgram, 'uFieldColors'), toUnitRgbArray(colors.map(color => color.fieldColor)));
+    gl.uniform3fv(gl.getUniformLocation(this.fieldProgram, 'uBackgroundColor'), toUnitRgb(params.backgroundColor));
+    gl.uniform3fv(gl.getUniformLocation(this.fieldProgram, 'uRepellentColor'), toUnitRgb(params.repellentColor));
+    gl.uniform3fv(gl.getUniformLocation(this.fieldProgram, 'uWallColor'), toUnitRgb(params.wallColor));
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    if (particleCount === 0) return;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, particles.subarray(0, particleCount * PARTICLE_STRIDE), gl.DYNAMIC_DRAW);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.useProgram(this.particleProgram);
+    gl.uniform2f(gl.getUniformLocation(this.particleProgram, 'uResolution'), width, height);
+    gl.uniform1f(gl.getUniformLocation(this.particleProgram, 'uRadius'), params.particleSize);
+    gl.uniform3fv(gl.getUniformLocation(this.particleProgram, 'uMoldColors'), toUnitRgbArray(colors.map(color => color.moldColor)));
+    gl.bindVertexArray(this.particleVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, particleCount);
+    gl.bindVertexArray(null);
+  }
+
+  public dispose(): void {
+    const { gl } = this;
+    gl.deleteProgram(this.fieldProgram);
+    gl.deleteProgram(this.particleProgram);
+    gl.deleteTexture(this.fieldTexture);
+    gl.deleteTexture(this.obstacleTexture);
+    gl.deleteVertexArray(this.particleVao);
+    gl.deleteBuffer(this.cornerBuffer);
+    gl.deleteBuffer(this.instanceBuffer);
+  }
+}
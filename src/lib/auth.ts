@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase, requireSupabase } from './supabase';
+
+/** Whether accounts are available at all; the auth UI hides when they aren't. */
+export const hasBackend = supabase !== null;
+
+/** The signed-in user, kept up to date; always null without a backend. */
+export function useCurrentUser(): User | null {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    if (!supabase) return;
+
+    // Get initial session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUser(session?.user ?? null);
+    });
+
+    // Listen for auth changes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCurrentUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return currentUser;
+}
+
+export async function signIn(email: string, password: string): Promise<void> {
+  const { error } = await requireSupabase().auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+export async function signUp(email: string, password: string): Promise<void> {
+  const { error } = await requireSupabase().auth.signUp({ email, password });
+  if (error) throw error;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await requireSupabase().auth.signOut();
+  if (error) throw error;
+}
@@ -0,0 +1,47 @@
+import { SimulationParams, FoodParams } from './types';
+import { randomSeed } from './random';
+
+export const defaultParams: SimulationParams = {
+  particleCount: 5000,
+  moveSpeed: 1.0,
+  turnSpeed: 0.1,
+  sensorAngle: Math.PI / 4,
+  sensorDistance: 10,
+  diffusionRate: 0.1,
+  decayRate: 0.1,
+  chemicalDepositRate: 0.05,
+  alignmentForce: 0.3,
+  cohesionForce: 0.0,
+  separationForce: 0.5,
+  perceptionRadius: 30,
+  fieldColor: '#808080',
+  moldColor: '#000000',
+  particleSize: 1,
+  backgroundColor: '#ffffff',
+  isPaused: false,
+  stickingProbability: 1.0,
+  releaseProbability: 0,
+  releaseAgeHalfLife: 0,
+  releaseNeighborFactor: 0,
+  seed: randomSeed(),
+  boundaryMode: 'wrap',
+  wallColor: '#4b5563',
+  repellentColor: '#7c3aed',
+  species: [],
+  interactions: [[1]]
+};
+
+export const defaultFoodParams: FoodParams = {
+  size: 15,
+  strength: 1.0,
+  opacity: 0.5,
+  color: '#00ff00',
+  brushMode: 'disc',
+  consumable: false,
+  capacity: 500,
+  consumptionRate: 1,
+  regrowTime: 0,
+  mapThreshold: 0.5,
+  mapInvert: false,
+  mapStrength: 1.0
+};
@@ -0,0 +1,15 @@
+/** Turns a user-given name into a file name that is safe on every platform. */
+export function safeFileName(name: string, fallback: string, extension: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+  return `${slug}${extension}`;
+}
+
+/** Saves a blob through the browser's download prompt. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,84 @@
+import { SimulationParams } from './types';
+import { hexToRgb } from './color';
+import { speciesColors } from './species';
+
+/**
+ * Colors a chemical field into `out`, `stride` bytes per pixel (RGB or RGBA).
+ *
+ * The field is signed: positive values shift the background towards each
+ * species' trail color, negative ones (repellent food) towards the repellent
+ * color. Food is added to every species' trail, so it shows in their mixed
+ * colors, and the repellent shade comes from the strongest plane rather than
+ * their sum. Values are clamped to [-1, 1], and obstacle cells take the wall
+ * color.
+ *
+ * With `transparent` (RGBA only) the background is left out: how far a pixel
+ * is shifted becomes its alpha, so the image composited over the background
+ * color looks the same as the opaque one.
+ */
+export function colorizeField(
+  field: Float32Array,
+  channels: number,
+  obstacles: Uint8Array | null,
+  params: SimulationParams,
+  out: Uint8Array | Uint8ClampedArray,
+  stride: 3 | 4,
+  transparent = false
+): void {
+  const planeSize = field.length / (channels + 1);
+  const food = field.subarray(channels * planeSize);
+  const fieldColors = speciesColors(params, channels).map(color => hexToRgb(color.fieldColor));
+  const bgColor = hexToRgb(params.backgroundColor);
+  const repellentColor = hexToRgb(params.repellentColor);
+  const wallColor = hexToRgb(params.wallColor);
+
+  for (let i = 0; i < planeSize; i++) {
+    const idx = i * stride;
+    if (stride === 4) out[idx + 3] = 255;
+
+    if (obstacles && obstacles[i]) {
+      out[idx] = wallColor.r;
+      out[idx + 1] = wallColor.g;
+      out[idx + 2] = wallColor.b;
+      continue;
+    }
+
+    // Sum of each color weighted by how far it shifts the background
+    let r = 0, g = 0, b = 0;
+    let weight = 0;
+    let repellent = 0;
+    for (let c = 0; c < channels; c++) {
+      const value = field[c * planeSize + i] + food[i];
+      if (value > 0) {
+        const amount = Math.min(1, value);
+        r += fieldColors[c].r * amount;
+        g += fieldColors[c].g * amount;
+        b += fieldColors[c].b * amount;
+        weight += amount;
+      } else if (-value > repellent) {
+        repellent = Math.min(1, -value);
+      }
+    }
+    r += repellentColor.r * repellent;
+    g += repellentColor.g * repellent;
+    b += repellentColor.b * repellent;
+    weight += repellent;
+
+    if (transparent && stride === 4) {
+      out[idx + 3] = Math.round(Math.min(1, weight) * 255);
+      if (weight > 0) {
+        r /= weight;
+        g /= weight;
+        b /= weight;
+      }
+    } else {
+      r += bgColor.r * (1 - weight);
+      g += bgColor.g * (1 - weight);
+      b += bgColor.b * (1 - weight);
+    }
+
+    out[idx] = Math.min(255, Math.max(0, Math.round(r)));
+    out[idx + 1] = Math.min(255, Math.max(0, Math.round(g)));
+    out[idx + 2] = Math.min(255, Math.max(0, Math.round(b)));
+  }
+}
@@ -0,0 +1,81 @@
+import { FoodParams, FoodSource, FoodSourceOptions } from './types';
+
+let foodIdCounter = 0;
+
+/** Ids are made where sources are created, so the UI can address them before the worker echoes them back. */
+export function createFoodId(): string {
+  return `food-${Date.now().toString(36)}-${(foodIdCounter++).toString(36)}`;
+}
+
+/** Deep copy, so the copy's points and reservoir can change independently. */
+export function cloneFoodSource(food: FoodSource): FoodSource {
+  return {
+    ...food,
+    points: food.points?.map(point => ({ ...point })),
+    reservoir: food.reservoir && { ...food.reservoir }
+  };
+}
+
+/** Styling and reservoir for a source placed with the current food settings. */
+export function foodSourceOptions(foodParams: FoodParams): FoodSourceOptions {
+  return {
+    color: foodParams.color,
+    opacity: foodParams.opacity,
+    reservoir: foodParams.consumable
+      ? { capacity: foodParams.capacity, consumptionRate: foodParams.consumptionRate, regrowTime: foodParams.regrowTime }
+      : undefined
+  };
+}
+
+/**
+ * Smallest box around a source's center, or around every point of its stroke.
+ * A loop rather than spreading into Math.min, which long strokes would overflow.
+ */
+export function foodSourceBounds(food: FoodSource): { minX: number; minY: number; maxX: number; maxY: number } {
+  const points = food.points && food.points.length > 1 ? food.points : [food];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function distanceToSegment(x: number, y: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared)) : 0;
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
+
+/** Distance from (x, y) to a source's center, or to the nearest point of its stroke. */
+export function distanceToFoodSource(food: FoodSource, x: number, y: number): number {
+  const points = food.points;
+  if (!points || points.length < 2) return Math.hypot(x - food.x, y - food.y);
+
+  let distance = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    distance = Math.min(distance, distanceToSegment(x, y, a.x, a.y, b.x, b.y));
+  }
+  return distance;
+}
+
+/** The topmost source drawn under (x, y), with `tolerance` pixels of slack. */
+export function findFoodSourceAt(
+  sources: FoodSource[],
+  x: number,
+  y: number,
+  particleSize: number,
+  tolerance = 2
+): FoodSource | null {
+  for (let i = sources.length - 1; i >= 0; i--) {
+    const food = sources[i];
+    if (distanceToFoodSource(food, x, y) <= food.radius * particleSize + tolerance) return food;
+  }
+  return null;
+}
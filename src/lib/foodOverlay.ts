@@ -0,0 +1,98 @@
+import { FoodParams, FoodSource } from './types';
+import { foodSourceBounds } from './food';
+
+// Indigo used for selection throughout the UI
+const SELECTION_COLOR = '#6366f1';
+
+function traceStroke(ctx: CanvasRenderingContext2D, food: FoodSource): void {
+  ctx.beginPath();
+  food.points!.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+}
+
+/**
+ * Draws every food source onto the overlay canvas in its own color and
+ * opacity: discs as filled circles, strokes as thick polylines. Sources
+ * created without styling use the current food params.
+ *
+ * Consumable discs also get a faint ring for a full reservoir and an arc,
+ * clockwise from the top, for what is left; consumable strokes fade as they
+ * drain. Empty sources waiting to regrow show a dashed outline. The selected
+ * source is framed. Source radii are scaled by `particleSize`, as the engine
+ * does when it applies them.
+ */
+export function drawFoodOverlay(
+  ctx: CanvasRenderingContext2D,
+  sources: FoodSource[],
+  foodParams: FoodParams,
+  particleSize: number,
+  selectedId: string | null
+): void {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  sources.forEach(food => {
+    const color = food.color ?? foodParams.color;
+    const opacity = food.opacity ?? foodParams.opacity;
+    const radius = Math.max(1, food.radius * particleSize);
+    const reservoir = food.reservoir;
+    const fraction = reservoir ? Math.min(1, reservoir.level / reservoir.capacity) : 1;
+    const isStroke = !!food.points && food.points.length > 1;
+
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+
+    if (isStroke) {
+      ctx.lineWidth = radius * 2;
+      ctx.globalAlpha = opacity * fraction;
+      ctx.setLineDash([]);
+      traceStroke(ctx, food);
+      ctx.stroke();
+      if (fraction === 0) {
+        ctx.lineWidth = 2;
+        ctx.globalAlpha = 0.3;
+        ctx.setLineDash([4, 4]);
+        traceStroke(ctx, food);
+        ctx.stroke();
+      }
+    } else {
+      if (fraction > 0) {
+        ctx.globalAlpha = opacity;
+        ctx.beginPath();
+        ctx.arc(food.x, food.y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      if (reservoir) {
+        ctx.lineWidth = 2;
+        ctx.globalAlpha = 0.3;
+        ctx.setLineDash(fraction > 0 ? [] : [4, 4]);
+        ctx.beginPath();
+        ctx.arc(food.x, food.y, radius + 2, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        if (fraction > 0) {
+          ctx.globalAlpha = 1;
+          ctx.beginPath();
+          ctx.arc(food.x, food.y, radius + 2, -Math.PI / 2, -Math.PI / 2 + fraction * Math.PI * 2);
+          ctx.stroke();
+        }
+      }
+    }
+
+    if (food.id === selectedId) {
+      const { minX, minY, maxX, maxY } = foodSourceBounds(food);
+      const padding = radius + 4;
+      const left = minX - padding;
+      const top = minY - padding;
+      ctx.globalAlpha = 1;
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(left, top, maxX + padding - left, maxY + padding - top);
+    }
+  });
+
+  ctx.globalAlpha = 1;
+  ctx.setLineDash([]);
+}
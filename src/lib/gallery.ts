@@ -0,0 +1,76 @@
+import { requireSupabase } from './supabase';
+import { SavedPreset, SettingsRow, presetFromRow, settingsStores } from './settingsStore';
+
+/**
+ * The community gallery: presets their owners marked public, readable by
+ * anyone. Liking needs an account; forking copies a preset into the library
+ * of whoever is using the app, the account or this browser.
+ */
+export type GallerySort = 'popular' | 'recent';
+
+export interface GalleryPreset extends SavedPreset {
+  userId: string;
+  likes: number;
+  likedByMe: boolean;
+}
+
+const PAGE_SIZE = 60;
+
+export async function listGallery(sort: GallerySort, userId: string | null): Promise<GalleryPreset[]> {
+  const supabase = requireSupabase();
+  let query = supabase
+    .from('simulation_settings')
+    .select('*')
+    .eq('is_public', true);
+  if (sort === 'popular') query = query.order('likes_count', { ascending: false });
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(PAGE_SIZE);
+  if (error) throw error;
+
+  const rows = (data ?? []) as SettingsRow[];
+  const liked = new Set<string>();
+  if (userId && rows.length > 0) {
+    const { data: likes, error: likesError } = await supabase
+      .from('setting_likes')
+      .select('setting_id')
+      .eq('user_id', userId)
+      .in('setting_id', rows.map(row => row.id));
+    if (likesError) throw likesError;
+    likes?.forEach(like => liked.add(like.setting_id));
+  }
+
+  // Skip presets whose settings don't load rather than the whole gallery
+  return rows.flatMap(row => {
+    try {
+      return [{
+        ...presetFromRow(row),
+        userId: row.user_id,
+        likes: row.likes_count,
+        likedByMe: liked.has(row.id)
+      }];
+    } catch (err) {
+      console.error(`Skipping invalid gallery preset "${row.name}":`, err);
+      return [];
+    }
+  });
+}
+
+export async function setLiked(settingId: string, userId: string, liked: boolean): Promise<void> {
+  const likes = requireSupabase().from('setting_likes');
+  const { error } = liked
+    ? await likes.insert({ setting_id: settingId, user_id: userId })
+    : await likes.delete().eq('setting_id', settingId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+/** Copies a gallery preset into the user's own library, private until they publish it. */
+export async function forkPreset(preset: GalleryPreset, userId: string | null): Promise<void> {
+  const [store] = settingsStores(userId);
+  await store.save(preset.name, preset.params, preset.foodParams, {
+    description: preset.description,
+    thumbnail: preset.thumbnail,
+    tags: preset.tags,
+    forkedFrom: preset.id
+  });
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { GifEncoder } from './gif';
+import { SeededRandom } from './random';
+
+interface DecodedFrame {
+  /** RGB triplets, one per pixel. */
+  pixels: number[];
+  /** Clear codes in the image data, the one it starts with included. */
+  clears: number;
+}
+
+/**
+ * Strict LZW decoder: codes widen as soon as the table needs the extra bit,
+ * and the data must end with the end code at the width it was written.
+ */
+function lzwDecode(data: number[], minCodeSize: number): { indices: number[]; clears: number } {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let bitOffset = 0;
+  const read = (size: number) => {
+    if (bitOffset + size > data.length * 8) throw new Error('Image data ended without an end code');
+    let code = 0;
+    for (let bit = 0; bit < size; bit++, bitOffset++) {
+      code |= ((data[bitOffset >> 3] >> (bitOffset & 7)) & 1) << bit;
+    }
+    return code;
+  };
+
+  const indices: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let clears = 0;
+  for (;;) {
+    const code = read(codeSize);
+    if (code === clearCode) {
+      table = Array.from({ length: endCode + 1 }, (_, index) => [index]);
+      codeSize = minCodeSize + 1;
+      previous = null;
+      clears++;
+      continue;
+    }
+    if (code === endCode) break;
+
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (code === table.length && previous) entry = [...previous, previous[0]];
+    else throw new Error(`Code ${code} is not in the table`);
+
+    indices.push(...entry);
+    if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  // Only the padding of the last byte may follow the end code
+  expect(data.length).toBe(Math.ceil(bitOffset / 8));
+  return { indices, clears };
+}
+
+function decodeGif(gif: Uint8Array): DecodedFrame[] {
+  expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+  const frames: DecodedFrame[] = [];
+  let offset = 13;
+  const readBlocks = () => {
+    const bytes: number[] = [];
+    while (gif[offset] !== 0) {
+      const length = gif[offset++];
+      bytes.push(...gif.subarray(offset, offset + length));
+      offset += length;
+    }
+    offset++;
+    return bytes;
+  };
+
+  for (;;) {
+    const introducer = gif[offset++];
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      offset++;
+      readBlocks();
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    const packed = gif[offset + 8];
+    offset += 9;
+    const palette = gif.subarray(offset, offset + (3 << ((packed & 7) + 1)));
+    offset += palette.length;
+    const minCodeSize = gif[offset++];
+    const { indices, clears } = lzwDecode(readBlocks(), minCodeSize);
+    frames.push({ pixels: indices.flatMap(index => [...palette.subarray(index * 3, index * 3 + 3)]), clears });
+  }
+  expect(offset).toBe(gif.length);
+  return frames;
+}
+
+/** A frame of `width * height` pixels drawn at random from `colorCount` colors, as RGB and RGBA. */
+function randomFrame(width: number, height: number, colorCount: number, seed: number) {
+  const random = new SeededRandom(seed);
+  const rgb: number[] = [];
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    // Every color falls in a bin of its own, so the palette keeps it exactly
+    const color = Math.floor(random.next() * colorCount);
+    const pixel = [(color & 15) << 4, (color >> 4) << 4, 128];
+    rgb.push(...pixel);
+    rgba.set([...pixel, 255], i * 4);
+  }
+  return { rgb, rgba };
+}
+
+describe('GIF encoder', () => {
+  it('writes frames that decode back to their pixels', () => {
+    const encoder = new GifEncoder({ width: 32, height: 24, fps: 10 });
+    const frames = [randomFrame(32, 24, 4, 1), randomFrame(32, 24, 16, 2)];
+    frames.forEach(frame => encoder.addFrame(frame.rgba));
+
+    const decoded = decodeGif(encoder.finish());
+    expect(decoded.map(frame => frame.pixels)).toEqual(frames.map(frame => frame.rgb));
+  });
+
+  it('widens the end code whenever the last code fills the table', () => {
+    // Every length of a short run ends the data at a different point in the table
+    for (let width = 1; width <= 300; width++) {
+      const frame = randomFrame(width, 1, 4, width);
+      const encoder = new GifEncoder({ width, height: 1, fps: 10 });
+      encoder.addFrame(frame.rgba);
+      expect(decodeGif(encoder.finish())[0].pixels).toEqual(frame.rgb);
+    }
+  });
+
+  it('starts the table over once it is full', () => {
+    // Noise of 256 colors adds a table entry for nearly every pixel
+    const frame = randomFrame(128, 96, 256, 3);
+    const encoder = new GifEncoder({ width: 128, height: 96, fps: 10 });
+    encoder.addFrame(frame.rgba);
+
+    const [decoded] = decodeGif(encoder.finish());
+    expect(decoded.clears).toBeGreaterThan(1);
+    expect(decoded.pixels).toEqual(frame.rgb);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Minimal animated GIF encoder. Frames are encoded as they are added, so a
+ * long recording never holds more than one frame of pixels. Each frame gets
+ * its own palette of the 256 most common colors after reducing the image to
+ * 5 bits per channel, which suits the smooth gradients of a chemical field.
+ */
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  /** GIF delays are in hundredths of a second, so the rate is rounded to fit. */
+  fps: number;
+}
+
+const BIN_BITS = 5;
+const BIN_COUNT = 1 << (BIN_BITS * 3);
+const MAX_CODE = 4096;
+
+function binOf(r: number, g: number, b: number): number {
+  const shift = 8 - BIN_BITS;
+  return ((r >> shift) << (BIN_BITS * 2)) | ((g >> shift) << BIN_BITS) | (b >> shift);
+}
+
+/** Packs variable-length LZW codes into bytes, least significant bit first. */
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private bitCount = 0;
+
+  public write(code: number, size: number): void {
+    this.buffer |= code << this.bitCount;
+    this.bitCount += size;
+    while (this.bitCount >= 8) {
+      this.bytes.push(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  public finish(): number[] {
+    if (this.bitCount > 0) this.bytes.push(this.buffer & 0xff);
+    return this.bytes;
+  }
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const writer = new BitWriter();
+  let table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  writer.write(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    writer.write(prefix, codeSize);
+    if (nextCode === MAX_CODE) {
+      // The table is full: start over rather than keep coding with stale strings
+      writer.write(clearCode, codeSize);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  writer.write(prefix, codeSize);
+  // Reading the last code adds one more entry on the decoder's side, which
+  // can widen the codes just as the end code follows
+  if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+  writer.write(endCode, codeSize);
+  return writer.finish();
+}
+
+export class GifEncoder {
+  private width: number;
+  private height: number;
+  private delay: number;
+  private parts: Uint8Array[] = [];
+  private counts = new Uint32Array(BIN_COUNT);
+  private sums = new Uint32Array(BIN_COUNT * 3);
+  private lookup = new Int16Array(BIN_COUNT);
+  private indices: Uint8Array;
+
+  constructor({ width, height, fps }: GifOptions) {
+    this.width = width;
+    this.height = height;
+    this.delay = Math.max(2, Math.round(100 / fps));
+    this.indices = new Uint8Array(width * height);
+
+    const header = [...'GIF89a'].map(char => char.charCodeAt(0));
+    // Logical screen without a global color table; every frame brings its own
+    header.push(width & 0xff, width >> 8, height & 0xff, height >> 8, 0, 0, 0);
+    // Loop forever
+    header.push(0x21, 0xff, 0x0b, ...[...'NETSCAPE2.0'].map(char => char.charCodeAt(0)), 0x03, 0x01, 0, 0, 0);
+    this.parts.push(new Uint8Array(header));
+  }
+
+  /** Adds a frame of `width * height` RGBA pixels; alpha is ignored. */
+  public addFrame(rgba: Uint8Array | Uint8ClampedArray): void {
+    const palette = this.quantize(rgba);
+    const bits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    const minCodeSize = Math.max(2, bits);
+
+    const { width, height, delay } = this;
+    const out: number[] = [
+      // Graphic control extension: frame delay, no transparency
+      0x21, 0xf9, 0x04, 0x00, delay & 0xff, delay >> 8, 0x00, 0x00,
+      // Image descriptor with a local color table of 2^bits entries
+      0x2c, 0, 0, 0, 0, width & 0xff, width >> 8, height & 0xff, height >> 8, 0x80 | (bits - 1)
+    ];
+    for (let i = 0; i < 3 << bits; i++) out.push(palette[i] ?? 0);
+
+    out.push(minCodeSize);
+    const data = lzwEncode(this.indices, minCodeSize);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0);
+    this.parts.push(new Uint8Array(out));
+  }
+
+  /** The complete file; the encoder can't be used afterwards. */
+  public finish(): Uint8Array {
+    this.parts.push(new Uint8Array([0x3b]));
+    const out = new Uint8Array(this.parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of this.parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    this.parts = [];
+    return out;
+  }
+
+  /** Fills `indices` for the frame and returns its palette as RGB triplets. */
+  private quantize(rgba: Uint8Array | Uint8ClampedArray): number[] {
+    const { counts, sums, lookup, indices } = this;
+    counts.fill(0);
+    sums.fill(0);
+    const pixelCount = this.width * this.height;
+    for (let i = 0; i < pixelCount; i++) {
+      const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+      const bin = binOf(r, g, b);
+      counts[bin]++;
+      sums[bin * 3] += r;
+      sums[bin * 3 + 1] += g;
+      sums[bin * 3 + 2] += b;
+    }
+
+    const used: number[] = [];
+    for (let bin = 0; bin < BIN_COUNT; bin++) {
+      if (counts[bin] > 0) used.push(bin);
+    }
+    used.sort((a, b) => counts[b] - counts[a]);
+
+    // Each palette color is the average of the pixels in its bin
+    const palette: number[] = [];
+    const kept = used.slice(0, 256);
+    kept.forEach(bin => {
+      palette.push(
+        Math.round(sums[bin * 3] / counts[bin]),
+        Math.round(sums[bin * 3 + 1] / counts[bin]),
+        Math.round(sums[bin * 3 + 2] / counts[bin])
+      );
+    });
+
+    // Bins that didn't make the palette take the nearest color that did
+    lookup.fill(-1);
+    kept.forEach((bin, index) => { lookup[bin] = index; });
+    for (let u = kept.length; u < used.length; u++) {
+      const bin = used[u];
+      const r = sums[bin * 3] / counts[bin];
+      const g = sums[bin * 3 + 1] / counts[bin];
+      const b = sums[bin * 3 + 2] / counts[bin];
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      for (let p = 0; p < kept.length; p++) {
+        const dr = palette[p * 3] - r, dg = palette[p * 3 + 1] - g, db = palette[p * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = p;
+        }
+      }
+      lookup[bin] = nearest;
+    }
+
+    for (let i = 0; i < pixelCount; i++) {
+      indices[i] = lookup[binOf(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2])];
+    }
+    return palette;
+  }
+}
+
+/** Messages between a recorder and the worker that encodes its GIF. */
+export type GifWorkerRequest =
+  | { type: 'start'; options: GifOptions }
+  | { type: 'frame'; rgba: Uint8ClampedArray }
+  | { type: 'finish' };
+
+export type GifWorkerResponse =
+  | { type: 'frameEncoded' }
+  | { type: 'finished'; data: Uint8Array }
+  | { type: 'error'; message: string };
@@ -0,0 +1,38 @@
+import { GifEncoder, GifWorkerRequest, GifWorkerResponse } from './gif';
+
+// Quantizing and compressing a frame takes long enough to drop frames on
+// screen, so the recorder hands its pixels over to be encoded here
+let encoder: GifEncoder | null = null;
+
+function handleMessage(message: GifWorkerRequest): void {
+  switch (message.type) {
+    case 'start':
+      encoder = new GifEncoder(message.options);
+      break;
+    case 'frame': {
+      if (!encoder) throw new Error('The GIF encoder was not started');
+      encoder.addFrame(message.rgba);
+      const response: GifWorkerResponse = { type: 'frameEncoded' };
+      self.postMessage(response);
+      break;
+    }
+    case 'finish': {
+      if (!encoder) throw new Error('The GIF encoder was not started');
+      const data = encoder.finish();
+      encoder = null;
+      const response: GifWorkerResponse = { type: 'finished', data };
+      self.postMessage(response, { transfer: [data.buffer] });
+      break;
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<GifWorkerRequest>) => {
+  try {
+    handleMessage(event.data);
+  } catch (err) {
+    console.error(`GIF worker failed to handle ${event.data.type}:`, err);
+    const response: GifWorkerResponse = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  }
+};
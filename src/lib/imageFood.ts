@@ -0,0 +1,45 @@
+import { FoodParams } from './types';
+
+/**
+ * Draws `image` onto a `width` x `height` canvas, scaled to fit without
+ * distortion and centered, and returns its RGBA pixels. The margins are left
+ * transparent.
+ */
+export function rasterizeImage(image: ImageBitmap, width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Turns RGBA pixels into a food map with one value per pixel. Bright pixels
+ * become food (dark ones with `mapInvert`); brightness below `mapThreshold`
+ * is dropped and the rest is rescaled to (0, mapStrength]. Transparent pixels
+ * never hold food.
+ */
+export function luminanceToFoodMap(
+  pixels: Uint8ClampedArray,
+  { mapThreshold, mapInvert, mapStrength }: Pick<FoodParams, 'mapThreshold' | 'mapInvert' | 'mapStrength'>
+): Float32Array {
+  const map = new Float32Array(pixels.length / 4);
+  const range = Math.max(1e-6, 1 - mapThreshold);
+
+  for (let i = 0; i < map.length; i++) {
+    const idx = i * 4;
+    // Rec. 709 luma
+    const luminance = (0.2126 * pixels[idx] + 0.7152 * pixels[idx + 1] + 0.0722 * pixels[idx + 2]) / 255;
+    const value = (mapInvert ? 1 - luminance : luminance) * (pixels[idx + 3] / 255);
+    if (value > mapThreshold) {
+      map[i] = mapStrength * Math.min(1, (value - mapThreshold) / range);
+    }
+  }
+  return map;
+}
@@ -0,0 +1,162 @@
+import { StoredParams, FoodParams } from './types';
+import { SETTINGS_VERSION, upgradeSettings, migrateSettings, storedParams } from './settingsSchema';
+
+/**
+ * Preset library kept in localStorage, so settings can be saved and loaded
+ * without an account. Entries are stored with the settings version they were
+ * written in, upgraded when read back and checked again before use.
+ */
+export interface LocalPreset {
+  id: string;
+  name: string;
+  createdAt: string;
+  params: StoredParams;
+  foodParams: FoodParams;
+  description?: string;
+  /** Small JPEG data URL of the canvas. */
+  thumbnail?: string;
+  tags?: string[];
+  folder?: string;
+  updatedAt?: string;
+  lastUsedAt?: string;
+  /** Earlier params, newest first, kept when the preset was overwritten. */
+  history?: LocalPresetVersion[];
+}
+
+export interface LocalPresetVersion {
+  id: string;
+  savedAt: string;
+  name: string;
+  params: StoredParams;
+  foodParams: FoodParams;
+}
+
+/** localStorage is small, so only the most recent versions are kept. */
+const MAX_HISTORY = 50;
+
+const STORAGE_KEY = 'fieldConditions.presets';
+
+interface StoredPresets {
+  version: number;
+  presets: LocalPreset[];
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * The stored presets, upgraded to the current settings version so they are
+ * written back at that version. Their values are not checked yet.
+ *
+ * Only a missing library reads as empty. One that can't be read, say because
+ * a newer version of the app wrote it, throws, so nothing writes an empty
+ * list over it.
+ */
+function readStored(): LocalPreset[] {
+  const json = localStorage.getItem(STORAGE_KEY);
+  if (json === null) return [];
+
+  try {
+    const stored: StoredPresets = JSON.parse(json);
+    const upgrade = <T extends { params: StoredParams; foodParams: FoodParams }>(entry: T): T =>
+      ({ ...entry, ...upgradeSettings(entry, stored.version ?? 1) });
+    return stored.presets.map(preset => ({
+      ...upgrade(preset),
+      history: preset.history?.map(upgrade)
+    }));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`The presets saved in this browser can't be read and were left as they are: ${reason}`);
+  }
+}
+
+function writeStored(presets: LocalPreset[]): void {
+  const stored: StoredPresets = { version: SETTINGS_VERSION, presets };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/** Newest first. Entries that no longer validate are skipped rather than failing the whole list. */
+export function listLocalPresets(): LocalPreset[] {
+  return readStored().flatMap(preset => {
+    try {
+      return [{ ...preset, ...migrateSettings(preset.params, preset.foodParams, SETTINGS_VERSION) }];
+    } catch (err) {
+      console.error(`Skipping invalid local preset "${preset.name}":`, err);
+      return [];
+    }
+  });
+}
+
+export function saveLocalPreset(
+  name: string,
+  params: StoredParams,
+  foodParams: FoodParams,
+  details: Pick<LocalPreset, 'description' | 'thumbnail' | 'tags' | 'folder'> = {}
+): LocalPreset {
+  const preset: LocalPreset = {
+    id: createId('preset'),
+    name,
+    createdAt: new Date().toISOString(),
+    params: storedParams(params),
+    foodParams,
+    ...details
+  };
+  writeStored([preset, ...readStored()]);
+  return preset;
+}
+
+export function deleteLocalPreset(id: string): void {
+  writeStored(readStored().filter(preset => preset.id !== id));
+}
+
+export function updateLocalPreset(
+  id: string,
+  changes: Partial<Pick<LocalPreset, 'name' | 'description' | 'tags' | 'folder' | 'params' | 'foodParams'>>
+): void {
+  writeStored(readStored().map(preset => {
+    if (preset.id !== id) return preset;
+
+    const updated: LocalPreset = {
+      ...preset,
+      name: changes.name ?? preset.name,
+      description: changes.description ?? preset.description,
+      tags: changes.tags ?? preset.tags,
+      // An empty folder name takes the preset out of its folder
+      folder: changes.folder === undefined ? preset.folder : changes.folder || undefined
+    };
+    // Only new settings make a new version, not renaming or refiling
+    if (changes.params || changes.foodParams) {
+      const previous: LocalPresetVersion = {
+        id: createId('version'),
+        savedAt: preset.updatedAt ?? preset.createdAt,
+        name: preset.name,
+        params: preset.params,
+        foodParams: preset.foodParams
+      };
+      updated.params = changes.params ? storedParams(changes.params) : preset.params;
+      updated.foodParams = changes.foodParams ?? preset.foodParams;
+      updated.updatedAt = new Date().toISOString();
+      updated.history = [previous, ...(preset.history ?? [])].slice(0, MAX_HISTORY);
+    }
+    return updated;
+  }));
+}
+
+export function markLocalPresetUsed(id: string): void {
+  const lastUsedAt = new Date().toISOString();
+  writeStored(readStored().map(preset => preset.id === id ? { ...preset, lastUsedAt } : preset));
+}
+
+/** Versions that no longer validate are skipped, as in `listLocalPresets`. */
+export function localPresetHistory(id: string): LocalPresetVersion[] {
+  const preset = readStored().find(preset => preset.id === id);
+  return (preset?.history ?? []).flatMap(version => {
+    try {
+      return [{ ...version, ...migrateSettings(version.params, version.foodParams, SETTINGS_VERSION) }];
+    } catch (err) {
+      console.error(`Skipping invalid version of local preset "${preset?.name}":`, err);
+      return [];
+    }
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Minimal PNG encoder. Compression is injected so the same code runs in the
+ * browser (CompressionStream) and in Node (zlib); `deflate` must produce a
+ * zlib-wrapped stream as required by the IDAT chunk.
+ */
+export type Deflate = (data: Uint8Array) => Promise<Uint8Array> | Uint8Array;
+
+export interface PngImage {
+  width: number;
+  height: number;
+  /** Samples in row-major order, `channels` per pixel. */
+  data: Uint8Array | Uint8ClampedArray | Uint16Array;
+  channels: 1 | 3 | 4;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPES = { 1: 0, 3: 2, 4: 6 } as const;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + payload.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, payload.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(payload, 8);
+  view.setUint32(8 + payload.length, crc32(out.subarray(4, 8 + payload.length)));
+  return out;
+}
+
+export async function encodePng(image: PngImage, deflate: Deflate): Promise<Uint8Array> {
+  const { width, height, data, channels } = image;
+  const bitDepth = data instanceof Uint16Array ? 16 : 8;
+  const bytesPerSample = bitDepth / 8;
+  const rowLength = width * channels * bytesPerSample;
+
+  // Every scanline is prefixed with filter type 0 (none)
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowLength + 1) + 1;
+    const sampleStart = y * width * channels;
+    if (bitDepth === 8) {
+      raw.set(data.subarray(sampleStart, sampleStart + width * channels), rowStart);
+    } else {
+      for (let i = 0; i < width * channels; i++) {
+        const sample = data[sampleStart + i];
+        raw[rowStart + i * 2] = sample >>> 8;
+        raw[rowStart + i * 2 + 1] = sample & 0xff;
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = COLOR_TYPES[channels];
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0))
+  ];
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
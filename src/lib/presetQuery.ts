@@ -0,0 +1,79 @@
+/**
+ * Searching, filtering and sorting the preset library. The Supabase store
+ * does this in the database; stores without one use the functions here,
+ * which follow the same rules so both libraries behave alike.
+ */
+export type PresetSort = 'recent' | 'name' | 'lastUsed';
+
+export interface PresetQuery {
+  /** Words that must each start a word of the name or description. */
+  search?: string;
+  tag?: string;
+  /** Only presets in this folder; `''` for presets in no folder. */
+  folder?: string;
+  sort?: PresetSort;
+}
+
+export interface PresetFacets {
+  folders: string[];
+  tags: string[];
+}
+
+/** The fields of a preset the query looks at. */
+interface Queryable {
+  name: string;
+  description?: string;
+  tags?: string[];
+  folder?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/** Lowercased search words; only letters and digits, so they are also safe in a tsquery. */
+export function searchTerms(search = ''): string[] {
+  return search.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** Lowercased, trimmed and without duplicates, from a list or comma-separated text. */
+export function normalizeTags(tags: string | string[]): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags;
+  return [...new Set(list.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/** A trimmed folder name, or undefined for none. */
+export function normalizeFolder(folder: string | null | undefined): string | undefined {
+  return folder?.trim() || undefined;
+}
+
+export function matchesQuery(preset: Queryable, query: PresetQuery): boolean {
+  if (query.tag && !preset.tags?.includes(query.tag)) return false;
+  if (query.folder !== undefined && (preset.folder ?? '') !== query.folder) return false;
+
+  const words = searchTerms(`${preset.name} ${preset.description ?? ''}`);
+  return searchTerms(query.search).every(term => words.some(word => word.startsWith(term)));
+}
+
+export function sortPresets<T extends Queryable>(presets: T[], sort: PresetSort = 'recent'): T[] {
+  const byDate = (a: string | undefined, b: string | undefined) => (b ?? '').localeCompare(a ?? '');
+  return [...presets].sort((a, b) => {
+    switch (sort) {
+      case 'name':
+        return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+      case 'lastUsed':
+        // Never-used presets go last, newest first among themselves
+        return byDate(a.lastUsedAt, b.lastUsedAt) || byDate(a.createdAt, b.createdAt);
+      default:
+        return byDate(a.createdAt, b.createdAt);
+    }
+  });
+}
+
+export function collectFacets(presets: Queryable[]): PresetFacets {
+  const folders = new Set<string>();
+  const tags = new Set<string>();
+  presets.forEach(preset => {
+    if (preset.folder) folders.add(preset.folder);
+    preset.tags?.forEach(tag => tags.add(tag));
+  });
+  return { folders: [...folders].sort(), tags: [...tags].sort() };
+}
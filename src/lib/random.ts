@@ -0,0 +1,36 @@
+/**
+ * Small seedable PRNG (mulberry32). Every random decision in the simulation
+ * goes through one of these so that a run can be reproduced from its seed.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Returns a float in [0, 1). */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  public reseed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
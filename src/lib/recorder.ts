@@ -0,0 +1,177 @@
+import { GifWorkerRequest, GifWorkerResponse } from './gif';
+
+export type RecordingFormat = 'webm' | 'gif';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  /** Frames per second of the finished clip. */
+  fps: number;
+  /** Simulation steps between frames; more than one gives a time-lapse. */
+  stepsPerFrame: number;
+  /** Size of the clip relative to the canvas. */
+  scale: number;
+  /** Length of the finished clip, in seconds. */
+  duration: number;
+}
+
+export const defaultRecordingOptions: RecordingOptions = {
+  format: 'webm',
+  fps: 30,
+  stepsPerFrame: 1,
+  scale: 1,
+  duration: 10
+};
+
+export const RECORDING_EXTENSIONS: Record<RecordingFormat, string> = {
+  webm: '.webm',
+  gif: '.gif'
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** GIF frames handed to the encoder but not encoded yet, before no more are asked for. */
+const MAX_PENDING_GIF_FRAMES = 2;
+
+/** Whether this browser can record the canvas to WebM. */
+export function canRecordWebm(): boolean {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Records frames drawn on a canvas into a clip. Frames are scaled onto a
+ * canvas of their own, then either captured by a MediaRecorder (WebM) or
+ * encoded as they come in by a worker (GIF).
+ *
+ * WebM is recorded in real time, so frames are only due once every
+ * `1 / fps` seconds and a simulation that can't keep up gives a choppy clip.
+ * A GIF's frame delays are fixed, so it takes frames as fast as the worker
+ * encodes them.
+ */
+export class CanvasRecorder {
+  public readonly options: RecordingOptions;
+  public readonly totalFrames: number;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private frameCount = 0;
+  private nextFrameTime = 0;
+  private gifWorker: Worker | null = null;
+  private pendingGifFrames = 0;
+  private gifError: Error | null = null;
+  private gifResult: { resolve: (clip: Blob) => void; reject: (error: Error) => void } | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+  private chunks: Blob[] = [];
+
+  constructor(sourceWidth: number, sourceHeight: number, options: RecordingOptions) {
+    this.options = options;
+    this.totalFrames = Math.max(1, Math.round(options.fps * options.duration));
+
+    // Video codecs want even sizes
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = Math.max(2, Math.round(sourceWidth * options.scale / 2) * 2);
+    this.canvas.height = Math.max(2, Math.round(sourceHeight * options.scale / 2) * 2);
+    this.ctx = this.canvas.getContext('2d', { willReadFrequently: options.format === 'gif' })!;
+
+    if (options.format === 'gif') {
+      this.gifWorker = new Worker(new URL('./gif.worker.ts', import.meta.url), { type: 'module' });
+      this.gifWorker.onmessage = (event: MessageEvent<GifWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'frameEncoded') {
+          this.pendingGifFrames--;
+        } else if (response.type === 'finished') {
+          this.gifResult?.resolve(new Blob([response.data], { type: 'image/gif' }));
+        } else {
+          this.failGif(new Error(response.message));
+        }
+      };
+      this.gifWorker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.failGif(new Error(event.message || 'The GIF encoder failed'));
+      };
+      this.postGif({ type: 'start', options: { width: this.canvas.width, height: this.canvas.height, fps: options.fps } });
+    } else {
+      // Frames are pushed one by one rather than sampled by the browser
+      const stream = this.canvas.captureStream(0);
+      this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      this.mediaRecorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+      this.mediaRecorder.ondataavailable = event => {
+        if (event.data.size > 0) this.chunks.push(event.data);
+      };
+      this.mediaRecorder.start();
+    }
+  }
+
+  /** Seconds of the clip recorded so far. */
+  public get recordedSeconds(): number {
+    return this.frameCount / this.options.fps;
+  }
+
+  /** Also true once the GIF encoder has failed, so `finish` can report it. */
+  public get isDone(): boolean {
+    return this.frameCount >= this.totalFrames || this.gifError !== null;
+  }
+
+  /** Whether the next frame should be asked for at `now` (a `performance.now()` time). */
+  public isDue(now: number): boolean {
+    if (this.gifWorker) return this.pendingGifFrames < MAX_PENDING_GIF_FRAMES;
+    return now >= this.nextFrameTime;
+  }
+
+  /** Records that the next frame was asked for at `now`. */
+  public frameRequested(now: number): void {
+    const interval = 1000 / this.options.fps;
+    // After falling behind, carry on from now instead of rushing to catch up
+    this.nextFrameTime = Math.max(this.nextFrameTime + interval, now);
+  }
+
+  public addFrame(source: HTMLCanvasElement): void {
+    if (this.isDone) return;
+    const { canvas, ctx } = this;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    if (this.gifWorker) {
+      const rgba = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+      this.pendingGifFrames++;
+      this.postGif({ type: 'frame', rgba }, [rgba.buffer]);
+    } else {
+      this.track?.requestFrame();
+    }
+    this.frameCount++;
+  }
+
+  /** The finished clip, with the frames recorded so far. */
+  public finish(): Promise<Blob> {
+    const gifWorker = this.gifWorker;
+    if (gifWorker) {
+      const clip = this.gifError
+        ? Promise.reject(this.gifError)
+        : new Promise<Blob>((resolve, reject) => {
+          this.gifResult = { resolve, reject };
+          this.postGif({ type: 'finish' });
+        });
+      return clip.finally(() => gifWorker.terminate());
+    }
+
+    const recorder = this.mediaRecorder!;
+    return new Promise((resolve, reject) => {
+      recorder.onstop = () => {
+        this.track?.stop();
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+      recorder.onerror = () => reject(new Error('Recording failed'));
+      recorder.stop();
+    });
+  }
+
+  private postGif(message: GifWorkerRequest, transfer: Transferable[] = []): void {
+    this.gifWorker?.postMessage(message, transfer);
+  }
+
+  private failGif(error: Error): void {
+    if (this.gifError) return;
+    this.gifError = error;
+    this.gifResult?.reject(error);
+  }
+}
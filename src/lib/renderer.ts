@@ -0,0 +1,16 @@
+import { SimulationParams } from './types';
+import { SimulationFrame } from './workerProtocol';
+import { WebGLRenderer } from './WebGLRenderer';
+import { Canvas2DRenderer } from './Canvas2DRenderer';
+
+/** Draws simulation frames onto a canvas. */
+export interface Renderer {
+  readonly kind: 'webgl2' | 'canvas2d';
+  render(frame: SimulationFrame, params: SimulationParams): void;
+  dispose(): void;
+}
+
+/** Uses WebGL2 when the browser supports it and falls back to Canvas2D. */
+export function createRenderer(canvas: HTMLCanvasElement): Renderer | null {
+  return WebGLRenderer.create(canvas) ?? Canvas2DRenderer.create(canvas);
+}
@@ -0,0 +1,48 @@
+import { StoredParams, FoodParams } from './types';
+
+export interface Settings {
+  params: StoredParams;
+  foodParams: FoodParams;
+}
+
+export interface SettingsChange {
+  /** Where the value lives, e.g. `species[1].moveSpeed` or `food.size`. */
+  path: string;
+  /** `undefined` when the setting didn't exist on that side. */
+  before: unknown;
+  after: unknown;
+}
+
+function collect(path: string, before: unknown, after: unknown, changes: SettingsChange[]): void {
+  if (Object.is(before, after)) return;
+
+  const isContainer = (value: unknown): value is object => typeof value === 'object' && value !== null;
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    keys.forEach(key => {
+      const child = Array.isArray(before) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+      collect(child, a[key], b[key], changes);
+    });
+    return;
+  }
+
+  changes.push({ path, before, after });
+}
+
+/** Every leaf value that differs between two sets of settings, param by param. */
+export function diffSettings(before: Settings, after: Settings): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+  collect('', before.params, after.params, changes);
+  collect('food', before.foodParams, after.foodParams, changes);
+  return changes;
+}
+
+/** A compact display form of a changed value. */
+export function formatSettingValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,55 @@
+import { StoredParams, FoodParams } from './types';
+import { SETTINGS_VERSION, migrateSettings, storedParams } from './settingsSchema';
+import { safeFileName, downloadBlob } from './download';
+
+/**
+ * Settings files are plain JSON:
+ *
+ *   { "format": "field-conditions-settings", "version": 1, "name": "...", "params": {...}, "foodParams": {...} }
+ *
+ * `version` is the `SETTINGS_VERSION` the file was written at; files from older
+ * versions are upgraded when read.
+ */
+export const SETTINGS_FORMAT = 'field-conditions-settings';
+
+export interface SettingsFile {
+  format: typeof SETTINGS_FORMAT;
+  version: number;
+  name: string;
+  params: StoredParams;
+  foodParams: FoodParams;
+}
+
+export function serializeSettings(name: string, params: StoredParams, foodParams: FoodParams): string {
+  const file: SettingsFile = { format: SETTINGS_FORMAT, version: SETTINGS_VERSION, name, params: storedParams(params), foodParams };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parses and validates a settings file, throwing an error that says what is wrong with it. */
+export function parseSettings(text: string): SettingsFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Settings file is not valid JSON');
+  }
+
+  const file = data as Partial<SettingsFile> | null;
+  if (!file || file.format !== SETTINGS_FORMAT) {
+    throw new Error('Not a Field Conditions settings file');
+  }
+
+  const { params, foodParams } = migrateSettings(file.params, file.foodParams, Number(file.version));
+  return { format: SETTINGS_FORMAT, version: SETTINGS_VERSION, name: String(file.name ?? ''), params, foodParams };
+}
+
+export function downloadSettings(name: string, params: StoredParams, foodParams: FoodParams): void {
+  downloadBlob(
+    new Blob([serializeSettings(name, params, foodParams)], { type: 'application/json' }),
+    safeFileName(name, 'settings', '.json')
+  );
+}
+
+export async function readSettingsFile(file: Blob): Promise<SettingsFile> {
+  return parseSettings(await file.text());
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { migrateSettings, upgradeSettings, normalizeFoodSources, SettingsValidationError, SETTINGS_VERSION } from './settingsSchema';
+import { defaultParams, defaultFoodParams } from './defaults';
+
+describe('upgradeSettings', () => {
+  it('drops isPaused going from version 1 to 2', () => {
+    const { params, foodParams } = upgradeSettings({ params: { moveSpeed: 2, isPaused: true }, foodParams: { size: 5 } }, 1);
+    expect(params).toEqual({ moveSpeed: 2 });
+    expect(foodParams).toEqual({ size: 5 });
+  });
+
+  it('leaves current settings as they are', () => {
+    const settings = { params: { moveSpeed: 2 }, foodParams: {} };
+    expect(upgradeSettings(settings, SETTINGS_VERSION)).toBe(settings);
+  });
+
+  it('rejects versions newer than the app or that never existed', () => {
+    for (const version of [SETTINGS_VERSION + 1, 0, 1.5, NaN]) {
+      expect(() => upgradeSettings({ params: {}, foodParams: {} }, version))
+        .toThrow(`Settings version ${version} is not supported by this app (${SETTINGS_VERSION})`);
+    }
+  });
+});
+
+describe('migrateSettings', () => {
+  it('reads version 1 settings without their pause state', () => {
+    const { params } = migrateSettings({ ...defaultParams, isPaused: true }, defaultFoodParams, 1);
+    expect(params).not.toHaveProperty('isPaused');
+    expect(params.moveSpeed).toBe(defaultParams.moveSpeed);
+  });
+
+  it('fills settings that are missing from the defaults', () => {
+    const { params, foodParams } = migrateSettings({ moveSpeed: 2 }, undefined, SETTINGS_VERSION);
+    expect(params.moveSpeed).toBe(2);
+    expect(params.repellentColor).toBe(defaultParams.repellentColor);
+    expect(params.species).toEqual([]);
+    expect(params.interactions).toEqual([[1]]);
+    expect(foodParams).toEqual(defaultFoodParams);
+  });
+
+  it('gives added species the first species\' behavior and a full interaction matrix', () => {
+    const { params } = migrateSettings({ moveSpeed: 2, species: [{ turnSpeed: 0.3 }], interactions: [[0.5]] }, {}, SETTINGS_VERSION);
+    expect(params.species[0].moveSpeed).toBe(2);
+    expect(params.species[0].turnSpeed).toBe(0.3);
+    expect(params.interactions).toEqual([[0.5, 0], [0, 1]]);
+  });
+
+  it('clamps numbers into the slider ranges and rounds whole-number settings', () => {
+    const { params, foodParams } = migrateSettings(
+      { moveSpeed: 99, particleSize: 0, particleCount: 12.6, interactions: [[-4]] },
+      { strength: 10 },
+      SETTINGS_VERSION
+    );
+    expect(params.moveSpeed).toBe(3);
+    expect(params.particleSize).toBe(0.5);
+    expect(params.particleCount).toBe(13);
+    expect(params.interactions).toEqual([[-1]]);
+    expect(foodParams.strength).toBe(5);
+  });
+
+  it('keeps numbers outside the slider ranges when clamping is off', () => {
+    const { params } = migrateSettings({ particleCount: 200000, moveSpeed: 7 }, {}, SETTINGS_VERSION, { clamp: false });
+    expect(params.particleCount).toBe(200000);
+    expect(params.moveSpeed).toBe(7);
+  });
+
+  it('rejects values of the wrong type, listing each of them', () => {
+    let error: unknown;
+    try {
+      migrateSettings({ moveSpeed: 'fast', boundaryMode: 'bounce', species: 'x' }, 5, SETTINGS_VERSION);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(SettingsValidationError);
+    expect((error as SettingsValidationError).issues).toEqual([
+      'params.moveSpeed must be a number',
+      'params.boundaryMode must be one of wrap, reflect, absorb, wall',
+      'params.species must be a list',
+      'foodParams must be an object'
+    ]);
+  });
+
+  it('rejects settings from a newer version of the app', () => {
+    expect(() => migrateSettings({}, {}, SETTINGS_VERSION + 1)).toThrow(/not supported/);
+  });
+});
+
+describe('normalizeFoodSources', () => {
+  it('clamps radius, strength and reservoir settings and drops unknown options', () => {
+    const [food] = normalizeFoodSources([{
+      x: 10,
+      y: 20,
+      radius: 1e6,
+      strength: -9,
+      options: { id: 'x', color: '#ff0000', points: [{ x: 1, y: 2 }], reservoir: { capacity: 1e9 } }
+    }]);
+    expect(food).toEqual({
+      x: 10,
+      y: 20,
+      radius: 50,
+      strength: -5,
+      options: {
+        color: '#ff0000',
+        opacity: undefined,
+        points: [{ x: 1, y: 2 }],
+        reservoir: { capacity: 5000, consumptionRate: defaultFoodParams.consumptionRate, regrowTime: defaultFoodParams.regrowTime }
+      }
+    });
+  });
+
+  it('rejects sources with missing values, malformed options or values of the wrong type', () => {
+    let error: unknown;
+    try {
+      normalizeFoodSources([{ x: 1, y: 2, strength: 1, options: null }, { x: 1, y: 2, radius: 3, strength: 1, options: { points: 4, reservoir: { capacity: NaN } } }]);
+    } catch (err) {
+      error = err;
+    }
+    expect((error as SettingsValidationError).issues).toEqual([
+      'food[0].radius is missing',
+      'food[1].options.points must be a list',
+      'food[1].options.reservoir.capacity must be a number'
+    ]);
+  });
+});
@@ -0,0 +1,304 @@
+import { SpeciesParams, FoodParams, StoredParams, SharedFoodSource, FoodPoint, FoodReservoirSettings, MAX_SPECIES } from './types';
+import { defaultParams, defaultFoodParams } from './defaults';
+import { defaultSpecies } from './species';
+
+/**
+ * Shape and allowed values of every stored setting, used to check settings
+ * that come from outside the app. Number ranges match the sliders in `Controls`.
+ */
+type FieldSpec =
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'color' }
+  | { type: 'enum'; values: readonly string[] };
+
+const SPECIES_FIELDS: Record<keyof SpeciesParams, FieldSpec> = {
+  particleCount: { type: 'number', min: 0, max: 10000, integer: true },
+  moveSpeed: { type: 'number', min: 0, max: 3 },
+  turnSpeed: { type: 'number', min: 0, max: 0.5 },
+  sensorAngle: { type: 'number', min: 0, max: Math.PI },
+  sensorDistance: { type: 'number', min: 0, max: 50 },
+  chemicalDepositRate: { type: 'number', min: 0, max: 0.2 },
+  moldColor: { type: 'color' },
+  fieldColor: { type: 'color' }
+};
+
+const PARAM_FIELDS: Record<Exclude<keyof StoredParams, 'species' | 'interactions'>, FieldSpec> = {
+  ...SPECIES_FIELDS,
+  diffusionRate: { type: 'number', min: 0, max: 0.5 },
+  decayRate: { type: 'number', min: 0, max: 0.5 },
+  alignmentForce: { type: 'number', min: 0, max: 1 },
+  cohesionForce: { type: 'number', min: 0, max: 1 },
+  separationForce: { type: 'number', min: 0, max: 2 },
+  perceptionRadius: { type: 'number', min: 0, max: 100 },
+  particleSize: { type: 'number', min: 0.5, max: 5 },
+  backgroundColor: { type: 'color' },
+  stickingProbability: { type: 'number', min: 0, max: 1 },
+  releaseProbability: { type: 'number', min: 0, max: 1 },
+  releaseAgeHalfLife: { type: 'number', min: 0, max: 1000 },
+  releaseNeighborFactor: { type: 'number', min: 0, max: 1 },
+  seed: { type: 'number', min: 0, max: 0xffffffff, integer: true },
+  boundaryMode: { type: 'enum', values: ['wrap', 'reflect', 'absorb', 'wall'] },
+  wallColor: { type: 'color' },
+  repellentColor: { type: 'color' }
+};
+
+const FOOD_FIELDS: Record<keyof FoodParams, FieldSpec> = {
+  size: { type: 'number', min: 0, max: 50 },
+  strength: { type: 'number', min: -5, max: 5 },
+  opacity: { type: 'number', min: 0, max: 1 },
+  color: { type: 'color' },
+  brushMode: { type: 'enum', values: ['disc', 'stroke'] },
+  consumable: { type: 'boolean' },
+  capacity: { type: 'number', min: 10, max: 5000 },
+  consumptionRate: { type: 'number', min: 0.1, max: 10 },
+  regrowTime: { type: 'number', min: 0, max: 2000 },
+  mapThreshold: { type: 'number', min: 0, max: 0.95 },
+  mapInvert: { type: 'boolean' },
+  mapStrength: { type: 'number', min: -5, max: 5 }
+};
+
+const INTERACTION_RANGE = { type: 'number', min: -1, max: 1 } as const;
+
+// Shared food sources are checked against the food settings they were made with
+const COORDINATE = { type: 'number', min: -10000, max: 10000 } as const;
+
+const POINT_FIELDS: Record<keyof FoodPoint, FieldSpec> = { x: COORDINATE, y: COORDINATE };
+
+const FOOD_SOURCE_FIELDS: Record<keyof Omit<SharedFoodSource, 'options'>, FieldSpec> = {
+  ...POINT_FIELDS,
+  radius: FOOD_FIELDS.size,
+  strength: FOOD_FIELDS.strength
+};
+
+const FOOD_STYLE_FIELDS = { color: FOOD_FIELDS.color, opacity: FOOD_FIELDS.opacity };
+
+const RESERVOIR_FIELDS: Record<keyof FoodReservoirSettings, FieldSpec> = {
+  capacity: FOOD_FIELDS.capacity,
+  consumptionRate: FOOD_FIELDS.consumptionRate,
+  regrowTime: FOOD_FIELDS.regrowTime
+};
+
+/** Thrown when settings don't match the schema; `issues` lists every problem found. */
+export class SettingsValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid settings: ${issues.join('; ')}`);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+/** Whether `value` is a plain object, as parsed JSON settings must be. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Describes what is wrong with the type of a single value, or returns null if it has the right type. */
+function checkValue(value: unknown, spec: FieldSpec): string | null {
+  switch (spec.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'color':
+      return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? null : 'must be a color like #1a2b3c';
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value) ? null : `must be one of ${spec.values.join(', ')}`;
+  }
+}
+
+/**
+ * Version of the stored settings. Bump it, with an upgrade step below, when
+ * settings saved by older versions need changing to keep their meaning.
+ *
+ * 1. The first saved settings; params include the pause state.
+ * 2. The pause state is no longer stored.
+ */
+export const SETTINGS_VERSION = 2;
+
+/** Settings as read from storage, not yet checked. */
+export interface RawSettings {
+  params: unknown;
+  foodParams: unknown;
+}
+
+/** `UPGRADES[v]` turns settings of version `v` into version `v + 1`. */
+const UPGRADES: Record<number, (settings: RawSettings) => RawSettings> = {
+  1: ({ params, foodParams }) => {
+    if (!isRecord(params)) return { params, foodParams };
+    const upgraded = { ...params };
+    delete upgraded.isPaused;
+    return { params: upgraded, foodParams };
+  }
+};
+
+/** Brings settings saved at `version` up to `SETTINGS_VERSION` without checking them. */
+export function upgradeSettings(settings: RawSettings, version: number): RawSettings {
+  if (!Number.isInteger(version) || version < 1 || version > SETTINGS_VERSION) {
+    throw new Error(`Settings version ${version} is not supported by this app (${SETTINGS_VERSION})`);
+  }
+  let upgraded = settings;
+  for (let from = version; from < SETTINGS_VERSION; from++) {
+    upgraded = UPGRADES[from](upgraded);
+  }
+  return upgraded;
+}
+
+function asRecord(value: unknown, path: string, issues: string[]): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (isRecord(value)) return value;
+  issues.push(`${path} must be an object`);
+  return {};
+}
+
+/**
+ * A value that fits the spec: missing values take the fallback and numbers
+ * are clamped into range, unless `clamp` is off. Values of the wrong type are
+ * reported.
+ */
+function normalizeValue(value: unknown, spec: FieldSpec, fallback: unknown, path: string, issues: string[], clamp: boolean): unknown {
+  if (value === undefined || value === null) return fallback;
+  if (spec.type === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+    const clamped = clamp ? Math.min(spec.max, Math.max(spec.min, value)) : value;
+    return spec.integer ? Math.round(clamped) : clamped;
+  }
+  const problem = checkValue(value, spec);
+  if (problem) issues.push(`${path} ${problem}`);
+  return value;
+}
+
+function normalizeFields<T>(
+  value: Record<string, unknown>,
+  fields: Record<string, FieldSpec>,
+  fallback: object,
+  path: string,
+  issues: string[],
+  clamp: boolean
+): T {
+  const defaults = fallback as Record<string, unknown>;
+  return Object.fromEntries(Object.entries(fields).map(([key, spec]) =>
+    [key, normalizeValue(value[key], spec, defaults[key], `${path}.${key}`, issues, clamp)]
+  )) as T;
+}
+
+function normalizeParams(params: unknown, issues: string[], clamp: boolean): StoredParams {
+  const source = asRecord(params, 'params', issues);
+  const first = normalizeFields<Omit<StoredParams, 'species' | 'interactions'>>(source, PARAM_FIELDS, defaultParams, 'params', issues, clamp);
+
+  let rawSpecies = source.species ?? [];
+  if (!Array.isArray(rawSpecies)) {
+    issues.push('params.species must be a list');
+    rawSpecies = [];
+  }
+  // Species beyond what the engine supports are dropped
+  const species = (rawSpecies as unknown[]).slice(0, MAX_SPECIES - 1).map((entry, i) => normalizeFields<SpeciesParams>(
+    asRecord(entry, `params.species[${i}]`, issues), SPECIES_FIELDS, defaultSpecies(first, i + 1), `params.species[${i}]`, issues, clamp
+  ));
+
+  // The matrix is rebuilt at the right size; missing weights mean a species
+  // follows its own trail and ignores the others
+  let rawInteractions = source.interactions ?? [];
+  if (!Array.isArray(rawInteractions)) {
+    issues.push('params.interactions must be a matrix');
+    rawInteractions = [];
+  }
+  const rows = rawInteractions as unknown[];
+  const count = species.length + 1;
+  const interactions = Array.from({ length: count }, (_, from) => Array.from({ length: count }, (_, to) => {
+    const row = rows[from];
+    return normalizeValue(
+      Array.isArray(row) ? row[to] : undefined, INTERACTION_RANGE, from === to ? 1 : 0, `params.interactions[${from}][${to}]`, issues, clamp
+    ) as number;
+  }));
+
+  return { ...first, species, interactions };
+}
+
+/**
+ * Reads settings saved at `version`: upgrades them, fills in settings that
+ * didn't exist yet from the defaults, clamps numbers to the slider ranges and
+ * drops anything that isn't a stored setting. Throws a `SettingsValidationError`
+ * listing every value of the wrong type.
+ *
+ * With `clamp` off, numbers are kept as given, for callers like the headless
+ * runner that go beyond what the sliders offer.
+ */
+export function migrateSettings(
+  params: unknown,
+  foodParams: unknown,
+  version: number,
+  { clamp = true }: { clamp?: boolean } = {}
+): { params: StoredParams; foodParams: FoodParams } {
+  const upgraded = upgradeSettings({ params, foodParams }, version);
+  const issues: string[] = [];
+  const result = {
+    params: normalizeParams(upgraded.params, issues, clamp),
+    foodParams: normalizeFields<FoodParams>(
+      asRecord(upgraded.foodParams, 'foodParams', issues), FOOD_FIELDS, defaultFoodParams, 'foodParams', issues, clamp
+    )
+  };
+  if (issues.length > 0) throw new SettingsValidationError(issues);
+  return result;
+}
+
+/** Fields of `fields` that `value` lacks, which have no default to fall back on. */
+function requireFields(value: Record<string, unknown>, fields: Record<string, FieldSpec>, path: string, issues: string[]): void {
+  Object.keys(fields).forEach(key => {
+    if (value[key] === undefined || value[key] === null) issues.push(`${path}.${key} is missing`);
+  });
+}
+
+function normalizeFoodSource(value: unknown, path: string, issues: string[]): SharedFoodSource {
+  const source = asRecord(value, path, issues);
+  requireFields(source, FOOD_SOURCE_FIELDS, path, issues);
+  const placement = normalizeFields<Omit<SharedFoodSource, 'options'>>(source, FOOD_SOURCE_FIELDS, {}, path, issues, true);
+
+  const optionsPath = `${path}.options`;
+  const options = asRecord(source.options, optionsPath, issues);
+  const style = normalizeFields<Pick<SharedFoodSource['options'], 'color' | 'opacity'>>(options, FOOD_STYLE_FIELDS, {}, optionsPath, issues, true);
+
+  let points: FoodPoint[] | undefined;
+  if (Array.isArray(options.points)) {
+    points = options.points.map((entry, i) => {
+      const pointPath = `${optionsPath}.points[${i}]`;
+      const point = asRecord(entry, pointPath, issues);
+      requireFields(point, POINT_FIELDS, pointPath, issues);
+      return normalizeFields<FoodPoint>(point, POINT_FIELDS, {}, pointPath, issues, true);
+    });
+  } else if (options.points !== undefined && options.points !== null) {
+    issues.push(`${optionsPath}.points must be a list`);
+  }
+
+  // Reservoir settings that are missing fall back to the food defaults
+  const reservoir = options.reservoir === undefined || options.reservoir === null
+    ? undefined
+    : normalizeFields<FoodReservoirSettings>(
+      asRecord(options.reservoir, `${optionsPath}.reservoir`, issues), RESERVOIR_FIELDS, defaultFoodParams, `${optionsPath}.reservoir`, issues, true
+    );
+
+  return { ...placement, options: { ...style, points, reservoir } };
+}
+
+/**
+ * Reads shared food sources like settings: radius, strength and reservoir
+ * settings are clamped to the ranges of the food sliders, options other than
+ * points, color, opacity and reservoir are dropped, and a
+ * `SettingsValidationError` lists every missing value or value of the wrong type.
+ */
+export function normalizeFoodSources(food: unknown): SharedFoodSource[] {
+  if (food === undefined || food === null) return [];
+  if (!Array.isArray(food)) throw new SettingsValidationError(['food must be a list']);
+  const issues: string[] = [];
+  const sources = food.map((entry, i) => normalizeFoodSource(entry, `food[${i}]`, issues));
+  if (issues.length > 0) throw new SettingsValidationError(issues);
+  return sources;
+}
+
+/** The params as they are saved, leaving out transient state like `isPaused`. */
+export function storedParams(params: StoredParams): StoredParams {
+  const source = params as unknown as Record<string, unknown>;
+  return {
+    ...Object.fromEntries(Object.keys(PARAM_FIELDS).map(key => [key, source[key]])) as Omit<StoredParams, 'species' | 'interactions'>,
+    species: params.species.map(species => ({ ...species })),
+    interactions: params.interactions.map(row => [...row])
+  };
+}
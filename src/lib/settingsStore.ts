@@ -0,0 +1,315 @@
+import { FoodParams, StoredParams } from './types';
+import { SETTINGS_VERSION, migrateSettings, storedParams } from './settingsSchema';
+import { requireSupabase } from './supabase';
+import {
+  listLocalPresets,
+  saveLocalPreset,
+  deleteLocalPreset,
+  updateLocalPreset,
+  markLocalPresetUsed,
+  localPresetHistory
+} from './localPresets';
+import {
+  PresetQuery,
+  PresetFacets,
+  searchTerms,
+  normalizeTags,
+  normalizeFolder,
+  matchesQuery,
+  sortPresets,
+  collectFacets
+} from './presetQuery';
+
+export interface SavedPreset extends PresetDetails {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** When the params were last overwritten, if ever. */
+  updatedAt?: string;
+  /** When the preset was last loaded, if ever. */
+  lastUsedAt?: string;
+  params: StoredParams;
+  foodParams: FoodParams;
+}
+
+/** An earlier state of a preset, kept when its params were overwritten. */
+export interface PresetVersion {
+  id: string;
+  /** When this version was saved. */
+  savedAt: string;
+  name: string;
+  params: StoredParams;
+  foodParams: FoodParams;
+}
+
+export interface PresetChanges {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  /** `''` takes the preset out of its folder. */
+  folder?: string;
+  params?: StoredParams;
+  foodParams?: FoodParams;
+}
+
+/** Optional extras saved with a preset. */
+export interface PresetDetails {
+  description?: string;
+  /** Small JPEG data URL of the canvas. */
+  thumbnail?: string;
+  /** Listed in the community gallery; only stores with a backend can publish. */
+  isPublic?: boolean;
+  /** The gallery preset this one was forked from. */
+  forkedFrom?: string;
+  tags?: string[];
+  folder?: string;
+}
+
+/** A place presets can be saved to and loaded from. */
+export interface SettingsStore {
+  readonly kind: 'supabase' | 'local';
+  /** Shown above the store's presets when several stores are listed. */
+  readonly label: string;
+  /** Presets matching the query, newest first unless it says otherwise. */
+  list(query?: PresetQuery): Promise<SavedPreset[]>;
+  /** All folders and tags in use, for filtering. */
+  facets(): Promise<PresetFacets>;
+  save(name: string, params: StoredParams, foodParams: FoodParams, details?: PresetDetails): Promise<void>;
+  remove(id: string): Promise<void>;
+  /**
+   * Edits a preset in place: its name and library details, or its settings.
+   * Overwriting the settings keeps the previous ones in the preset's history.
+   */
+  update(id: string, changes: PresetChanges): Promise<void>;
+  /** Earlier versions of a preset, newest first. */
+  history(id: string): Promise<PresetVersion[]>;
+  /** Records that the preset was loaded, for sorting by last use. */
+  markUsed(id: string): Promise<void>;
+}
+
+export interface SettingsRow {
+  id: string;
+  name: string;
+  /** Checked by `presetFromRow`. */
+  params: unknown;
+  food_params: unknown;
+  /** The `SETTINGS_VERSION` the params were saved at. */
+  settings_version: number;
+  created_at: string;
+  updated_at: string | null;
+  user_id: string;
+  description: string;
+  thumbnail: string | null;
+  is_public: boolean;
+  likes_count: number;
+  forked_from: string | null;
+  tags: string[];
+  folder: string | null;
+  last_used_at: string | null;
+}
+
+/** Throws if the row's settings don't load, see `migrateSettings`. */
+export function presetFromRow(row: SettingsRow): SavedPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+    lastUsedAt: row.last_used_at ?? undefined,
+    ...migrateSettings(row.params, row.food_params, row.settings_version),
+    description: row.description,
+    thumbnail: row.thumbnail ?? undefined,
+    isPublic: row.is_public,
+    forkedFrom: row.forked_from ?? undefined,
+    tags: row.tags ?? [],
+    folder: row.folder ?? undefined
+  };
+}
+
+/** The signed-in user's presets in the `simulation_settings` table. */
+export class SupabaseSettingsStore implements SettingsStore {
+  public readonly kind = 'supabase';
+  public readonly label = 'Account';
+
+  constructor(private readonly userId: string) {}
+
+  public async list(query: PresetQuery = {}): Promise<SavedPreset[]> {
+    let request = requireSupabase()
+      .from('simulation_settings')
+      .select('*')
+      // Public presets of other users are readable too, so filter explicitly
+      .eq('user_id', this.userId);
+
+    // Every word as a prefix, matching `matchesQuery`
+    const terms = searchTerms(query.search);
+    if (terms.length > 0) {
+      request = request.textSearch('search', terms.map(term => `${term}:*`).join(' & '), { config: 'simple' });
+    }
+    if (query.tag) request = request.contains('tags', [query.tag]);
+    if (query.folder !== undefined) {
+      request = query.folder ? request.eq('folder', query.folder) : request.is('folder', null);
+    }
+
+    if (query.sort === 'name') request = request.order('name', { ascending: true });
+    if (query.sort === 'lastUsed') request = request.order('last_used_at', { ascending: false, nullsFirst: false });
+    const { data, error } = await request.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as SettingsRow[] ?? []).flatMap(row => {
+      try {
+        return [presetFromRow(row)];
+      } catch (err) {
+        console.error(`Skipping invalid preset "${row.name}":`, err);
+        return [];
+      }
+    });
+  }
+
+  public async facets(): Promise<PresetFacets> {
+    const { data, error } = await requireSupabase()
+      .from('simulation_settings')
+      .select('name, created_at, tags, folder')
+      .eq('user_id', this.userId);
+
+    if (error) throw error;
+    return collectFacets((data ?? []).map(row => ({
+      name: row.name,
+      createdAt: row.created_at,
+      tags: row.tags,
+      folder: row.folder ?? undefined
+    })));
+  }
+
+  public async save(name: string, params: StoredParams, foodParams: FoodParams, details: PresetDetails = {}): Promise<void> {
+    const { error } = await requireSupabase()
+      .from('simulation_settings')
+      .insert({
+        name,
+        params: storedParams(params),
+        food_params: foodParams,
+        settings_version: SETTINGS_VERSION,
+        user_id: this.userId,
+        description: details.description ?? '',
+        thumbnail: details.thumbnail ?? null,
+        is_public: details.isPublic ?? false,
+        forked_from: details.forkedFrom ?? null,
+        tags: normalizeTags(details.tags ?? []),
+        folder: normalizeFolder(details.folder) ?? null
+      });
+
+    if (error) throw error;
+  }
+
+  public async remove(id: string): Promise<void> {
+    const { error } = await requireSupabase()
+      .from('simulation_settings')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  public async update(id: string, changes: PresetChanges): Promise<void> {
+    // Previous params are copied into the history by a database trigger
+    const { error } = await requireSupabase()
+      .from('simulation_settings')
+      .update({
+        name: changes.name,
+        description: changes.description,
+        tags: changes.tags && normalizeTags(changes.tags),
+        folder: changes.folder === undefined ? undefined : normalizeFolder(changes.folder) ?? null,
+        params: changes.params && storedParams(changes.params),
+        food_params: changes.foodParams,
+        // Rewritten params are in the current format
+        settings_version: changes.params ? SETTINGS_VERSION : undefined
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  public async markUsed(id: string): Promise<void> {
+    const { error } = await requireSupabase()
+      .from('simulation_settings')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  public async history(id: string): Promise<PresetVersion[]> {
+    const { data, error } = await requireSupabase()
+      .from('simulation_settings_versions')
+      .select('*')
+      .eq('setting_id', id)
+      .order('saved_at', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []).flatMap(row => {
+      try {
+        return [{
+          id: row.id,
+          savedAt: row.saved_at,
+          name: row.name,
+          ...migrateSettings(row.params, row.food_params, row.settings_version)
+        }];
+      } catch (err) {
+        console.error(`Skipping invalid version of preset "${row.name}":`, err);
+        return [];
+      }
+    });
+  }
+}
+
+/** Presets kept in this browser's localStorage; needs no backend or account. */
+export class LocalSettingsStore implements SettingsStore {
+  public readonly kind = 'local';
+  public readonly label = 'This Browser';
+
+  public async list(query: PresetQuery = {}): Promise<SavedPreset[]> {
+    return sortPresets(listLocalPresets().filter(preset => matchesQuery(preset, query)), query.sort);
+  }
+
+  public async facets(): Promise<PresetFacets> {
+    return collectFacets(listLocalPresets());
+  }
+
+  public async save(name: string, params: StoredParams, foodParams: FoodParams, details: PresetDetails = {}): Promise<void> {
+    saveLocalPreset(name, params, foodParams, {
+      description: details.description,
+      thumbnail: details.thumbnail,
+      tags: normalizeTags(details.tags ?? []),
+      folder: normalizeFolder(details.folder)
+    });
+  }
+
+  public async remove(id: string): Promise<void> {
+    deleteLocalPreset(id);
+  }
+
+  public async update(id: string, changes: PresetChanges): Promise<void> {
+    updateLocalPreset(id, {
+      ...changes,
+      tags: changes.tags && normalizeTags(changes.tags),
+      folder: changes.folder === undefined ? undefined : normalizeFolder(changes.folder) ?? ''
+    });
+  }
+
+  public async markUsed(id: string): Promise<void> {
+    markLocalPresetUsed(id);
+  }
+
+  public async history(id: string): Promise<PresetVersion[]> {
+    return localPresetHistory(id);
+  }
+}
+
+const localStore = new LocalSettingsStore();
+
+/**
+ * The stores available right now, the one new presets are saved to first:
+ * the account when signed in to a backend, otherwise this browser.
+ */
+export function settingsStores(userId: string | null): SettingsStore[] {
+  return userId ? [new SupabaseSettingsStore(userId), localStore] : [localStore];
+}
@@ -0,0 +1,109 @@
+import { StoredParams, FoodParams, FoodSource, SharedFoodSource } from './types';
+import { SETTINGS_VERSION, isRecord, migrateSettings, normalizeFoodSources, storedParams } from './settingsSchema';
+
+/**
+ * Share links carry the settings, and optionally the food sources, in the URL
+ * hash as `#config=<payload>`: JSON, deflate-compressed and base64url-encoded.
+ *
+ * The payload has a version `v` for its own layout and `s` for the settings
+ * in it, which are upgraded like any other stored settings, so old links
+ * keep loading.
+ */
+export const SHARE_LINK_VERSION = 1;
+
+const HASH_KEY = 'config';
+
+interface SharePayload {
+  v: number;
+  /** `SETTINGS_VERSION` of the params; links made before it was added hold version 1 settings. */
+  s?: number;
+  params: StoredParams;
+  foodParams: FoodParams;
+  food?: SharedFoodSource[];
+}
+
+export interface SharedConfig {
+  params: StoredParams;
+  foodParams: FoodParams;
+  foodSources: SharedFoodSource[];
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function shareFoodSource(food: FoodSource): SharedFoodSource {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const { reservoir } = food;
+  return {
+    x: round(food.x),
+    y: round(food.y),
+    radius: food.radius,
+    strength: food.strength,
+    options: {
+      points: food.points?.map(point => ({ x: round(point.x), y: round(point.y) })),
+      color: food.color,
+      opacity: food.opacity,
+      reservoir: reservoir && {
+        capacity: reservoir.capacity,
+        consumptionRate: reservoir.consumptionRate,
+        regrowTime: reservoir.regrowTime
+      }
+    }
+  };
+}
+
+export async function encodeShareLink(
+  params: StoredParams,
+  foodParams: FoodParams,
+  foodSources: FoodSource[] = []
+): Promise<string> {
+  const payload: SharePayload = { v: SHARE_LINK_VERSION, s: SETTINGS_VERSION, params: storedParams(params), foodParams };
+  if (foodSources.length > 0) payload.food = foodSources.map(shareFoodSource);
+
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return `${HASH_KEY}=${toBase64Url(compressed)}`;
+}
+
+/** The share payload in a location hash, or null when the hash holds none. */
+export function shareLinkPayload(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+}
+
+/** Decodes and validates a payload, throwing an error that says what is wrong with the link. */
+export async function decodeShareLink(payload: string): Promise<SharedConfig> {
+  let data: Partial<SharePayload>;
+  try {
+    const json = await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(json));
+    // Valid JSON can still be null or a bare value rather than a payload
+    if (!isRecord(data)) throw new Error('Not a share link payload');
+  } catch {
+    throw new Error('The shared link is damaged or incomplete');
+  }
+
+  if (typeof data.v !== 'number' || data.v > SHARE_LINK_VERSION) {
+    throw new Error('The shared link was made by a newer version of the app');
+  }
+
+  const { params, foodParams } = migrateSettings(data.params, data.foodParams, data.s ?? 1);
+  return { params, foodParams, foodSources: normalizeFoodSources(data.food) };
+}
+
+/** A link to the current page that opens with the given configuration. */
+export async function createShareUrl(params: StoredParams, foodParams: FoodParams, foodSources: FoodSource[]): Promise<string> {
+  const url = new URL(window.location.href);
+  url.hash = await encodeShareLink(params, foodParams, foodSources);
+  return url.toString();
+}
@@ -0,0 +1,156 @@
+import { SimulationEngine } from './SimulationEngine';
+import { WorkerRequest, WorkerResponse, PARTICLE_STRIDE } from './workerProtocol';
+
+let engine: SimulationEngine | null = null;
+let width = 0;
+let height = 0;
+let sentObstacleVersion = -1;
+
+function buildFrame(recycledField?: Float32Array, recycledParticles?: Float32Array): Extract<WorkerResponse, { type: 'frame' }> {
+  const { particles, chemicalField, channels } = engine!.getState();
+
+  const field = recycledField && recycledField.length === chemicalField.length
+    ? recycledField
+    : new Float32Array(chemicalField.length);
+  field.set(chemicalField);
+
+  const required = particles.count * PARTICLE_STRIDE;
+  const particleData = recycledParticles && recycledParticles.length >= required
+    ? recycledParticles
+    : new Float32Array(Math.ceil(required * 1.25));
+
+  for (let i = 0; i < particles.count; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    particleData[offset] = particles.x[i];
+    particleData[offset + 1] = particles.y[i];
+    particleData[offset + 2] = particles.flags[i];
+    particleData[offset + 3] = particles.species[i];
+  }
+
+  const { mask, version } = engine!.getObstacles();
+  const obstacles = version !== sentObstacleVersion ? mask.slice() : null;
+  sentObstacleVersion = version;
+
+  return {
+    type: 'frame',
+    frame: {
+      width,
+      height,
+      chemicalField: field,
+      channels,
+      particles: particleData,
+      particleCount: particles.count,
+      obstacles,
+      foodSources: engine!.getFoodSources()
+    }
+  };
+}
+
+function handleMessage(message: WorkerRequest): void {
+  if (message.type === 'init') {
+    width = message.width;
+    height = message.height;
+    engine = new SimulationEngine(width, height, message.params);
+    sentObstacleVersion = -1;
+    return;
+  }
+
+  if (!engine) return;
+
+  switch (message.type) {
+    case 'updateParams':
+      engine.updateParams(message.params);
+      break;
+    case 'addFoodSource':
+      engine.addFoodSource(message.x, message.y, message.radius, message.strength, message.options);
+      break;
+    case 'removeFoodSourcesNear':
+      engine.removeFoodSourcesNear(message.x, message.y, message.radius);
+      break;
+    case 'removeFoodSource':
+      engine.removeFoodSource(message.id);
+      break;
+    case 'updateFoodSource':
+      engine.updateFoodSource(message.id, message.changes);
+      break;
+    case 'extendFoodStroke':
+      engine.extendFoodStroke(message.id, message.x, message.y);
+      break;
+    case 'clearFoodSources':
+      engine.clearFoodSources();
+      break;
+    case 'setFoodMap':
+      engine.setFoodMap(message.map);
+      break;
+    case 'spawnStickyParticle':
+      engine.spawnStickyParticle(message.x, message.y);
+      break;
+    case 'paintObstacle':
+      engine.paintObstacle(message.x, message.y, message.radius);
+      break;
+    case 'eraseObstacles':
+      engine.eraseObstacles(message.x, message.y, message.radius);
+      break;
+    case 'clearObstacles':
+      engine.clearObstacles();
+      break;
+    case 'restartParticles':
+      if (message.params) engine.updateParams(message.params);
+      engine.restartParticles();
+      break;
+    case 'captureSnapshot': {
+      const snapshot = engine.getSnapshot();
+      const { particles } = snapshot;
+      const response: WorkerResponse = { type: 'snapshot', requestId: message.requestId, snapshot };
+      const transfer: Transferable[] = [snapshot.chemicalField.buffer, snapshot.obstacles.buffer];
+      [particles.x, particles.y, particles.vx, particles.vy, particles.angle, particles.flags, particles.age, particles.species]
+        .forEach(array => transfer.push(array.buffer));
+      if (snapshot.foodMap) transfer.push(snapshot.foodMap.buffer);
+      self.postMessage(response, { transfer });
+      break;
+    }
+    case 'restoreSnapshot': {
+      const { snapshot } = message;
+      // A snapshot that can't be restored leaves the current engine running
+      const target = snapshot.width !== width || snapshot.height !== height
+        ? new SimulationEngine(snapshot.width, snapshot.height, snapshot.params)
+        : engine;
+      target.restoreSnapshot(snapshot);
+      engine = target;
+      width = snapshot.width;
+      height = snapshot.height;
+      sentObstacleVersion = -1;
+      break;
+    }
+    case 'step': {
+      if (!engine.getParams().isPaused) {
+        for (let i = 0; i < (message.steps ?? 1); i++) {
+          engine.update();
+        }
+      }
+      const response = buildFrame(message.recycledField, message.recycledParticles);
+      const transfer: Transferable[] = [response.frame.chemicalField.buffer, response.frame.particles.buffer];
+      if (response.frame.obstacles) transfer.push(response.frame.obstacles.buffer);
+      self.postMessage(response, { transfer });
+      break;
+    }
+  }
+}
+
+// Errors are reported rather than thrown, so the client can tell a frame or
+// snapshot isn't coming and the page can say what went wrong
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  try {
+    handleMessage(message);
+  } catch (err) {
+    console.error(`Simulation worker failed to handle ${message.type}:`, err);
+    const response: WorkerResponse = {
+      type: 'error',
+      request: message.type,
+      message: err instanceof Error ? err.message : String(err),
+      requestId: message.type === 'captureSnapshot' ? message.requestId : undefined
+    };
+    self.postMessage(response);
+  }
+};
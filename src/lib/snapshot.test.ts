@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { encodeSnapshot, decodeSnapshot, SimulationSnapshot, SNAPSHOT_VERSION } from './snapshot';
+import { SimulationEngine } from './SimulationEngine';
+import { defaultParams, defaultFoodParams } from './defaults';
+
+// The format doesn't depend on the compression, so the tests leave it out
+const identity = (data: Uint8Array) => data;
+
+function takeSnapshot(): SimulationSnapshot {
+  const engine = new SimulationEngine(40, 30, { ...defaultParams, particleCount: 20, seed: 1, isPaused: true });
+  engine.addFoodSource(20, 15, 5, 1);
+  engine.addFoodSource(5, 5, 2, 0.5, { reservoir: { capacity: 100, consumptionRate: 1, regrowTime: 10 } });
+  for (let step = 0; step < 3; step++) engine.update();
+  return { ...engine.getSnapshot(), version: SNAPSHOT_VERSION, createdAt: '2024-01-01T00:00:00.000Z', foodParams: defaultFoodParams };
+}
+
+describe('snapshots', () => {
+  it('read back as they were taken, without the pause state', async () => {
+    const snapshot = takeSnapshot();
+    const decoded = await decodeSnapshot(await encodeSnapshot(snapshot, identity), identity);
+
+    expect(decoded.params).toEqual({ ...snapshot.params, isPaused: false });
+    expect(decoded.chemicalField).toEqual(snapshot.chemicalField);
+    expect(decoded.particles).toEqual(snapshot.particles);
+    expect(decoded.foodSources).toEqual(snapshot.foodSources);
+    expect(decoded.step).toBe(snapshot.step);
+  });
+
+  it('give version 1 fields an empty food plane', async () => {
+    const snapshot = takeSnapshot();
+    const planeSize = snapshot.width * snapshot.height;
+    const v1 = { ...snapshot, version: 1, chemicalField: snapshot.chemicalField.slice(0, planeSize) };
+    const decoded = await decodeSnapshot(await encodeSnapshot(v1, identity), identity);
+
+    expect(decoded.chemicalField.subarray(0, planeSize)).toEqual(v1.chemicalField);
+    expect(decoded.chemicalField.subarray(planeSize).every(value => value === 0)).toBe(true);
+  });
+
+  it('reject particles of a species the params don\'t have', async () => {
+    const snapshot = takeSnapshot();
+    snapshot.particles.species[3] = 1;
+    await expect(decodeSnapshot(await encodeSnapshot(snapshot, identity), identity))
+      .rejects.toThrow('Snapshot has particles of species 2, but only 1 species');
+  });
+
+  it('reject particle arrays shorter than the particle count', async () => {
+    const snapshot = takeSnapshot();
+    snapshot.particles.count += 5;
+    await expect(decodeSnapshot(await encodeSnapshot(snapshot, identity), identity))
+      .rejects.toThrow('Snapshot particles.x has the wrong type or length');
+  });
+
+  it('reject a step or random state that isn\'t a count', async () => {
+    for (const changes of [{ step: -1 }, { step: 1.5 }, { randomState: 2 ** 32 }]) {
+      const snapshot = { ...takeSnapshot(), ...changes };
+      await expect(decodeSnapshot(await encodeSnapshot(snapshot, identity), identity))
+        .rejects.toThrow('Snapshot has no valid step or random state');
+    }
+  });
+
+  it('reject food sources that don\'t pass as shared food', async () => {
+    const snapshot = takeSnapshot();
+    snapshot.foodSources[0].radius = NaN;
+    await expect(decodeSnapshot(await encodeSnapshot(snapshot, identity), identity)).rejects.toThrow(/food\[0\]\.radius/);
+  });
+
+  it('leave the engine as it was when they don\'t fit it', () => {
+    const engine = new SimulationEngine(40, 30, { ...defaultParams, particleCount: 20, seed: 1, isPaused: false });
+    const before = engine.getSnapshot();
+    const snapshot = takeSnapshot();
+    snapshot.particles.species[0] = 4;
+
+    expect(() => engine.restoreSnapshot(snapshot)).toThrow('Snapshot has particles of a species its params don\'t have');
+    expect(engine.getSnapshot()).toEqual(before);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Snapshot file format. A snapshot is a full `EngineSnapshot` plus the food
+ * settings of the UI that took it, stored as:
+ *
+ *   "FCSN" | header length (uint32 LE) | JSON header | array data
+ *
+ * and compressed as a whole. The header lists the typed arrays in the order
+ * their bytes follow. Compression is injected, as for PNGs, so the browser
+ * (CompressionStream) and Node (zlib) share this code; both sides must agree
+ * on the format, which is gzip.
+ *
+ * Version 1 snapshots predate the food plane; their field is read with an
+ * empty one, which the food sources fill again on the next step.
+ *
+ * Params and food params are stored without the pause state and read like
+ * any other stored settings. Everything else is checked against the size and
+ * species count before a snapshot reaches an engine.
+ */
+import { EngineSnapshot, FoodParams, FoodSource, FoodReservoir, ParticleBuffers, SimulationParams, StoredParams } from './types';
+import { SETTINGS_VERSION, migrateSettings, normalizeFoodSources, storedParams } from './settingsSchema';
+import { speciesCount } from './species';
+
+export const SNAPSHOT_VERSION = 2;
+export const SNAPSHOT_EXTENSION = '.fcsnap';
+
+export type Compress = (data: Uint8Array) => Promise<Uint8Array> | Uint8Array;
+
+export interface SimulationSnapshot extends EngineSnapshot {
+  version: number;
+  createdAt: string;
+  foodParams: FoodParams;
+}
+
+const MAGIC = 'FCSN';
+
+type ArrayType = 'f32' | 'u8' | 'u16';
+type TypedArray = Float32Array | Uint8Array | Uint16Array;
+
+interface ArrayEntry {
+  name: string;
+  type: ArrayType;
+  length: number;
+}
+
+type SnapshotHeader = Omit<SimulationSnapshot, 'params' | 'chemicalField' | 'particles' | 'obstacles' | 'foodMap'> & {
+  params: StoredParams;
+  /** `SETTINGS_VERSION` of the params; snapshots made before it was added hold version 1 settings. */
+  settingsVersion?: number;
+  particleCount: number;
+  arrays: ArrayEntry[];
+};
+
+const PARTICLE_ARRAYS = ['x', 'y', 'vx', 'vy', 'angle', 'flags', 'age', 'species'] as const;
+
+type ArrayConstructor = Float32ArrayConstructor | Uint8ArrayConstructor | Uint16ArrayConstructor;
+
+const PARTICLE_ARRAY_TYPES: Record<typeof PARTICLE_ARRAYS[number], ArrayConstructor> = {
+  x: Float32Array,
+  y: Float32Array,
+  vx: Float32Array,
+  vy: Float32Array,
+  angle: Float32Array,
+  flags: Uint8Array,
+  age: Uint16Array,
+  species: Uint8Array
+};
+
+function arrayType(array: TypedArray): ArrayType {
+  if (array instanceof Float32Array) return 'f32';
+  return array instanceof Uint16Array ? 'u16' : 'u8';
+}
+
+function readArray(type: ArrayType, bytes: Uint8Array): TypedArray {
+  // Copy into a buffer of its own so the view starts aligned (Node's
+  // Buffer.slice would share memory instead)
+  const buffer = new Uint8Array(bytes).buffer;
+  if (type === 'f32') return new Float32Array(buffer);
+  return type === 'u16' ? new Uint16Array(buffer) : new Uint8Array(buffer);
+}
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Food sources checked like shared ones, keeping the ids and what is left in
+ * the reservoirs, which only snapshots carry.
+ */
+function readFoodSources(value: unknown): FoodSource[] {
+  if (!Array.isArray(value)) throw new Error('Snapshot food sources must be a list');
+  const sources = value as Array<Partial<FoodSource> | null>;
+  const checked = normalizeFoodSources(sources.map(food => ({
+    ...food,
+    options: { points: food?.points, color: food?.color, opacity: food?.opacity, reservoir: food?.reservoir }
+  })));
+
+  return checked.map(({ options, ...placement }, i) => {
+    const { id, reservoir } = sources[i]!;
+    if (typeof id !== 'string') throw new Error(`Snapshot food source ${i + 1} has no id`);
+
+    let filled: FoodReservoir | undefined;
+    if (options.reservoir) {
+      const { level, emptySteps } = reservoir!;
+      if (!Number.isFinite(level) || !isCount(emptySteps)) {
+        throw new Error(`Snapshot food source ${i + 1} has no valid reservoir level`);
+      }
+      filled = { ...options.reservoir, level: Math.min(options.reservoir.capacity, Math.max(0, level)), emptySteps };
+    }
+    return { ...placement, id, points: options.points, color: options.color, opacity: options.opacity, reservoir: filled };
+  });
+}
+
+export async function encodeSnapshot(snapshot: SimulationSnapshot, compress: Compress): Promise<Uint8Array> {
+  const { chemicalField, particles, obstacles, foodMap, ...rest } = snapshot;
+
+  const arrays: Array<[string, TypedArray]> = [
+    ['chemicalField', chemicalField],
+    ...PARTICLE_ARRAYS.map((name): [string, TypedArray] => [`particles.${name}`, particles[name].subarray(0, particles.count)]),
+    ['obstacles', obstacles]
+  ];
+  if (foodMap) arrays.push(['foodMap', foodMap]);
+
+  const header: SnapshotHeader = {
+    ...rest,
+    params: storedParams(rest.params),
+    settingsVersion: SETTINGS_VERSION,
+    particleCount: particles.count,
+    arrays: arrays.map(([name, array]) => ({ name, type: arrayType(array), length: array.length }))
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  const size = 8 + headerBytes.length + arrays.reduce((total, [, array]) => total + array.byteLength, 0);
+  const bytes = new Uint8Array(size);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(bytes.buffer).setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, 8);
+
+  let offset = 8 + headerBytes.length;
+  arrays.forEach(([, array]) => {
+    bytes.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), offset);
+    offset += array.byteLength;
+  });
+
+  return compress(bytes);
+}
+
+export async function decodeSnapshot(data: Uint8Array, decompress: Compress): Promise<SimulationSnapshot> {
+  const bytes = await decompress(data);
+  if (bytes.length < 8 || new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error('Not a simulation snapshot');
+  }
+
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(4, true);
+  const { arrays: entries, particleCount, ...header }: SnapshotHeader = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(8, 8 + headerLength))
+  );
+  if (header.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${header.version} is newer than this app supports (${SNAPSHOT_VERSION})`);
+  }
+
+  const arrays = new Map<string, TypedArray>();
+  let offset = 8 + headerLength;
+  entries.forEach(({ name, type, length }) => {
+    const byteLength = length * (type === 'f32' ? 4 : type === 'u16' ? 2 : 1);
+    if (offset + byteLength > bytes.length) throw new Error('Snapshot is truncated');
+    arrays.set(name, readArray(type, bytes.subarray(offset, offset + byteLength)));
+    offset += byteLength;
+  });
+
+  const array = <T extends TypedArray>(name: string, type: ArrayConstructor, length?: number): T => {
+    const found = arrays.get(name);
+    if (!found) throw new Error(`Snapshot is missing ${name}`);
+    if (!(found instanceof type) || (length !== undefined && found.length !== length)) {
+      throw new Error(`Snapshot ${name} has the wrong type or length`);
+    }
+    return found as T;
+  };
+
+  // Headless runs can go beyond the sliders, so values aren't clamped
+  const settings = migrateSettings(header.params, header.foodParams, header.settingsVersion ?? 1, { clamp: false });
+  const params: SimulationParams = { ...settings.params, isPaused: false };
+
+  const { width, height, channels } = header;
+  if (![width, height].every(size => Number.isInteger(size) && size > 0)) {
+    throw new Error('Snapshot has no valid size');
+  }
+  if (channels !== speciesCount(params)) {
+    throw new Error(`Snapshot field has ${channels} channels, its params ${speciesCount(params)}`);
+  }
+  if (!isCount(particleCount)) {
+    throw new Error('Snapshot has no valid particle count');
+  }
+  if (!isCount(header.step) || !isCount(header.randomState) || header.randomState > 0xffffffff) {
+    throw new Error('Snapshot has no valid step or random state');
+  }
+
+  const planeSize = width * height;
+  const storedPlanes = header.version < 2 ? channels : channels + 1;
+  let chemicalField = array<Float32Array>('chemicalField', Float32Array, planeSize * storedPlanes);
+  if (storedPlanes === channels) {
+    const field = new Float32Array(planeSize * (channels + 1));
+    field.set(chemicalField);
+    chemicalField = field;
+  }
+
+  const particleArrays = Object.fromEntries(PARTICLE_ARRAYS.map(name =>
+    [name, array(`particles.${name}`, PARTICLE_ARRAY_TYPES[name], particleCount)]
+  ));
+  const particles = { count: particleCount, ...particleArrays } as ParticleBuffers;
+  const unknownSpecies = particles.species.find(species => species >= channels);
+  if (unknownSpecies !== undefined) {
+    throw new Error(`Snapshot has particles of species ${unknownSpecies + 1}, but only ${channels} species`);
+  }
+
+  const foodMap = arrays.has('foodMap') ? array<Float32Array>('foodMap', Float32Array, planeSize) : null;
+  return {
+    ...header,
+    params,
+    foodParams: settings.foodParams,
+    foodSources: readFoodSources(header.foodSources),
+    chemicalField,
+    particles,
+    obstacles: array('obstacles', Uint8Array, planeSize),
+    foodMap
+  };
+}
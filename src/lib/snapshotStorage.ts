@@ -0,0 +1,71 @@
+import { requireSupabase } from './supabase';
+import { encodeSnapshot, decodeSnapshot, SimulationSnapshot, SNAPSHOT_EXTENSION } from './snapshot';
+import { safeFileName, downloadBlob } from './download';
+
+const BUCKET = 'snapshots';
+
+export interface StoredSnapshot {
+  /** Path inside the bucket, `<user id>/<file name>`. */
+  path: string;
+  name: string;
+  createdAt: string;
+  size: number;
+}
+
+async function pipeThrough(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const gzip = (data: Uint8Array) => pipeThrough(data, new CompressionStream('gzip'));
+const gunzip = (data: Uint8Array) => pipeThrough(data, new DecompressionStream('gzip'));
+
+export function encodeSnapshotFile(snapshot: SimulationSnapshot): Promise<Uint8Array> {
+  return encodeSnapshot(snapshot, gzip);
+}
+
+export async function readSnapshotFile(file: Blob): Promise<SimulationSnapshot> {
+  return decodeSnapshot(new Uint8Array(await file.arrayBuffer()), gunzip);
+}
+
+// Keeps names readable in file listings while staying safe as storage keys
+const fileName = (name: string) => safeFileName(name, 'snapshot', SNAPSHOT_EXTENSION);
+
+export async function downloadSnapshot(snapshot: SimulationSnapshot, name: string): Promise<void> {
+  const data = await encodeSnapshotFile(snapshot);
+  downloadBlob(new Blob([data], { type: 'application/octet-stream' }), fileName(name));
+}
+
+export async function uploadSnapshot(snapshot: SimulationSnapshot, name: string, userId: string): Promise<void> {
+  const data = await encodeSnapshotFile(snapshot);
+  const { error } = await requireSupabase().storage
+    .from(BUCKET)
+    .upload(`${userId}/${Date.now()}-${fileName(name)}`, data, { contentType: 'application/octet-stream' });
+  if (error) throw error;
+}
+
+export async function listSnapshots(userId: string): Promise<StoredSnapshot[]> {
+  const { data, error } = await requireSupabase().storage
+    .from(BUCKET)
+    .list(userId, { sortBy: { column: 'created_at', order: 'desc' } });
+  if (error) throw error;
+
+  return (data ?? []).map(file => ({
+    path: `${userId}/${file.name}`,
+    // Drop the timestamp prefix and extension added on upload
+    name: file.name.replace(/^\d+-/, '').replace(SNAPSHOT_EXTENSION, ''),
+    createdAt: file.created_at,
+    size: file.metadata?.size ?? 0
+  }));
+}
+
+export async function fetchSnapshot(path: string): Promise<SimulationSnapshot> {
+  const { data, error } = await requireSupabase().storage.from(BUCKET).download(path);
+  if (error) throw error;
+  return readSnapshotFile(data);
+}
+
+export async function deleteSnapshot(path: string): Promise<void> {
+  const { error } = await requireSupabase().storage.from(BUCKET).remove([path]);
+  if (error) throw error;
+}
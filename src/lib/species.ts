@@ -0,0 +1,86 @@
+import { SimulationParams, SpeciesParams, MAX_SPECIES } from './types';
+
+// Particle and trail colors handed to newly added species
+const SPECIES_COLORS = [
+  { moldColor: '#b91c1c', fieldColor: '#f87171' },
+  { moldColor: '#1d4ed8', fieldColor: '#60a5fa' },
+  { moldColor: '#047857', fieldColor: '#34d399' }
+];
+
+/** Number of species in a run, including the one described by the top-level params. */
+export function speciesCount(params: SimulationParams): number {
+  return Math.min(MAX_SPECIES, 1 + (params.species?.length ?? 0));
+}
+
+export function getSpecies(params: SimulationParams, index: number): SpeciesParams {
+  return index === 0 ? params : params.species[index - 1];
+}
+
+export function updateSpecies(params: SimulationParams, index: number, changes: Partial<SpeciesParams>): SimulationParams {
+  if (index === 0) return { ...params, ...changes };
+  return {
+    ...params,
+    species: params.species.map((species, i) => (i === index - 1 ? { ...species, ...changes } : species))
+  };
+}
+
+/** How strongly species `from` is drawn to (or, when negative, repelled by) the trail of species `to`. */
+export function interactionWeight(params: SimulationParams, from: number, to: number): number {
+  return params.interactions?.[from]?.[to] ?? (from === to ? 1 : 0);
+}
+
+/** Rebuilds the full interaction matrix so every entry is explicit. */
+function interactionMatrix(params: SimulationParams, count: number): number[][] {
+  return Array.from({ length: count }, (_, from) =>
+    Array.from({ length: count }, (_, to) => interactionWeight(params, from, to))
+  );
+}
+
+export function setInteraction(params: SimulationParams, from: number, to: number, weight: number): SimulationParams {
+  const interactions = interactionMatrix(params, speciesCount(params));
+  interactions[from][to] = weight;
+  return { ...params, interactions };
+}
+
+/** Settings for species `index` (1 or more) when added: the first species' behavior in a new color. */
+export function defaultSpecies(first: SpeciesParams, index: number): SpeciesParams {
+  return {
+    particleCount: first.particleCount,
+    moveSpeed: first.moveSpeed,
+    turnSpeed: first.turnSpeed,
+    sensorAngle: first.sensorAngle,
+    sensorDistance: first.sensorDistance,
+    chemicalDepositRate: first.chemicalDepositRate,
+    ...SPECIES_COLORS[(index - 1) % SPECIES_COLORS.length]
+  };
+}
+
+/** Adds a species that copies the first one's behavior in a new color. */
+export function addSpecies(params: SimulationParams): SimulationParams {
+  const count = speciesCount(params);
+  if (count >= MAX_SPECIES) return params;
+
+  const species = defaultSpecies(params, count);
+  const withSpecies = { ...params, species: [...(params.species ?? []), species] };
+  return { ...withSpecies, interactions: interactionMatrix(params, count + 1) };
+}
+
+/** Removes an added species; the first species can't be removed. */
+export function removeSpecies(params: SimulationParams, index: number): SimulationParams {
+  if (index < 1 || index >= speciesCount(params)) return params;
+
+  const interactions = interactionMatrix(params, speciesCount(params))
+    .filter((_, from) => from !== index)
+    .map(row => row.filter((_, to) => to !== index));
+  return { ...params, species: params.species.filter((_, i) => i !== index - 1), interactions };
+}
+
+/**
+ * Colors for each of a frame's `channels` species. A frame can briefly have
+ * more channels than the params when a species was just removed; those fall
+ * back to the first species' colors.
+ */
+export function speciesColors(params: SimulationParams, channels: number): Array<Pick<SpeciesParams, 'moldColor' | 'fieldColor'>> {
+  const count = speciesCount(params);
+  return Array.from({ length: channels }, (_, c) => getSpecies(params, c < count ? c : 0));
+}
@@ -0,0 +1,39 @@
+import { EngineSnapshot } from './types';
+import { encodePng } from './png';
+import { renderStill, fieldToGray16, StillOptions } from './stillImage';
+import { downloadBlob } from './download';
+
+export type StillExport =
+  /** Colored like the canvas, at any size. */
+  | { kind: 'image'; options: StillOptions }
+  /** The field at the engine's resolution as a 16-bit grayscale PNG. */
+  | { kind: 'field16' }
+  /** The field's raw float32 values, little-endian, one plane per species and one of food. */
+  | { kind: 'fieldFloat' };
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Renders or copies out what was asked for and downloads it as `baseName` plus a suffix. */
+export async function exportStill(snapshot: EngineSnapshot, request: StillExport, baseName: string): Promise<void> {
+  const { width, height, channels, chemicalField } = snapshot;
+
+  if (request.kind === 'fieldFloat') {
+    // The size isn't stored in the file, so it goes in the name
+    const bytes = new Uint8Array(chemicalField.buffer, chemicalField.byteOffset, chemicalField.byteLength);
+    downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), `${baseName}-field-${width}x${height}x${channels + 1}.f32`);
+    return;
+  }
+
+  if (request.kind === 'field16') {
+    const png = await encodePng(fieldToGray16(snapshot), deflate);
+    downloadBlob(new Blob([png], { type: 'image/png' }), `${baseName}-field-16bit.png`);
+    return;
+  }
+
+  const image = renderStill(snapshot, request.options);
+  const png = await encodePng(image, deflate);
+  downloadBlob(new Blob([png], { type: 'image/png' }), `${baseName}-${image.width}x${image.height}.png`);
+}
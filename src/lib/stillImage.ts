@@ -0,0 +1,146 @@
+import { EngineSnapshot, PARTICLE_STUCK } from './types';
+import { PngImage } from './png';
+import { hexToRgb } from './color';
+import { speciesColors } from './species';
+import { colorizeField } from './fieldImage';
+
+export interface StillOptions {
+  /** Output pixels per field cell; need not be a whole number. */
+  scale: number;
+  particles: boolean;
+  /** Leave the background out, so only trails, walls and particles are opaque. */
+  transparent: boolean;
+}
+
+/** Largest still that is rendered, in pixels; about 8000 × 8000. */
+export const MAX_STILL_PIXELS = 64_000_000;
+
+type StillSource = Pick<EngineSnapshot, 'width' | 'height' | 'channels' | 'chemicalField' | 'obstacles' | 'particles' | 'params'>;
+
+// Rows colored at a time, so the upscaled field never has to exist in full
+const BAND_ROWS = 64;
+
+export function stillSize(width: number, height: number, scale: number): { width: number; height: number } {
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Renders the field, and optionally the particles, as RGBA at any scale.
+ * The field is interpolated between cells rather than blown up into blocks;
+ * walls keep their hard edges.
+ */
+export function renderStill(source: StillSource, options: StillOptions): PngImage {
+  const { width, height, channels, chemicalField, obstacles, params } = source;
+  const size = stillSize(width, height, options.scale);
+  if (size.width * size.height > MAX_STILL_PIXELS) {
+    throw new Error(`A ${size.width} × ${size.height} image is larger than the ${MAX_STILL_PIXELS / 1e6} megapixels that can be exported`);
+  }
+
+  const data = new Uint8Array(size.width * size.height * 4);
+  const scaleX = width / size.width;
+  const scaleY = height / size.height;
+  const planeSize = width * height;
+
+  // Where each output column falls between two field columns
+  const left = new Int32Array(size.width);
+  const right = new Int32Array(size.width);
+  const fracX = new Float32Array(size.width);
+  const obstacleColumn = new Int32Array(size.width);
+  for (let x = 0; x < size.width; x++) {
+    const fx = Math.min(width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+    left[x] = Math.floor(fx);
+    right[x] = Math.min(width - 1, left[x] + 1);
+    fracX[x] = fx - left[x];
+    obstacleColumn[x] = Math.min(width - 1, Math.floor((x + 0.5) * scaleX));
+  }
+
+  const planes = channels + 1;
+  const bandField = new Float32Array(size.width * BAND_ROWS * planes);
+  const bandObstacles = new Uint8Array(size.width * BAND_ROWS);
+  for (let bandStart = 0; bandStart < size.height; bandStart += BAND_ROWS) {
+    const rows = Math.min(BAND_ROWS, size.height - bandStart);
+    const bandPlane = size.width * rows;
+    const field = bandField.subarray(0, bandPlane * planes);
+
+    for (let row = 0; row < rows; row++) {
+      const y = bandStart + row;
+      const fy = Math.min(height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+      const top = Math.floor(fy);
+      const bottom = Math.min(height - 1, top + 1);
+      const fracY = fy - top;
+      const obstacleRow = Math.min(height - 1, Math.floor((y + 0.5) * scaleY)) * width;
+
+      for (let x = 0; x < size.width; x++) {
+        const out = row * size.width + x;
+        const l = left[x], r = right[x], fx = fracX[x];
+        for (let c = 0; c < planes; c++) {
+          const upper = c * planeSize + top * width;
+          const lower = c * planeSize + bottom * width;
+          const above = chemicalField[upper + l] * (1 - fx) + chemicalField[upper + r] * fx;
+          const below = chemicalField[lower + l] * (1 - fx) + chemicalField[lower + r] * fx;
+          field[c * bandPlane + out] = above * (1 - fracY) + below * fracY;
+        }
+        bandObstacles[out] = obstacles[obstacleRow + obstacleColumn[x]];
+      }
+    }
+
+    const offset = bandStart * size.width * 4;
+    colorizeField(field, channels, bandObstacles.subarray(0, bandPlane), params, data.subarray(offset, offset + bandPlane * 4), 4, options.transparent);
+  }
+
+  if (options.particles) drawParticles(source, options.scale, data, size.width, size.height);
+  return { ...size, data, channels: 4 };
+}
+
+/**
+ * Draws particles as anti-aliased discs over `data`, blended the way the
+ * Canvas2D renderer does: free particles at 80% opacity, stuck ones solid.
+ */
+function drawParticles(source: StillSource, scale: number, data: Uint8Array, width: number, height: number): void {
+  const { particles, params, channels } = source;
+  const colors = speciesColors(params, channels).map(color => hexToRgb(color.moldColor));
+  const radius = params.particleSize * scale;
+  const reach = Math.ceil(radius + 0.5);
+
+  for (let i = 0; i < particles.count; i++) {
+    const cx = particles.x[i] * scale;
+    const cy = particles.y[i] * scale;
+    const color = colors[particles.species[i]] ?? colors[0];
+    const opacity = particles.flags[i] & PARTICLE_STUCK ? 1 : 0.8;
+
+    const x0 = Math.max(0, Math.floor(cx) - reach), x1 = Math.min(width - 1, Math.floor(cx) + reach);
+    const y0 = Math.max(0, Math.floor(cy) - reach), y1 = Math.min(height - 1, Math.floor(cy) + reach);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const coverage = Math.min(1, radius + 0.5 - Math.hypot(x + 0.5 - cx, y + 0.5 - cy));
+        if (coverage <= 0) continue;
+
+        // Source-over with straight (not premultiplied) alpha
+        const idx = (y * width + x) * 4;
+        const alpha = opacity * coverage;
+        const below = data[idx + 3] / 255 * (1 - alpha);
+        const total = alpha + below;
+        data[idx] = Math.round((color.r * alpha + data[idx] * below) / total);
+        data[idx + 1] = Math.round((color.g * alpha + data[idx + 1] * below) / total);
+        data[idx + 2] = Math.round((color.b * alpha + data[idx + 2] * below) / total);
+        data[idx + 3] = Math.round(total * 255);
+      }
+    }
+  }
+}
+
+/**
+ * The field as 16-bit grayscale at the engine's resolution, species planes
+ * and then the food plane stacked top to bottom. Values are clamped to
+ * [-1, 1] and mapped linearly onto [0, 65535], so an empty cell is mid-gray
+ * (32768).
+ */
+export function fieldToGray16(source: Pick<EngineSnapshot, 'width' | 'height' | 'channels' | 'chemicalField'>): PngImage {
+  const { width, height, channels, chemicalField } = source;
+  const data = new Uint16Array(width * height * (channels + 1));
+  for (let i = 0; i < data.length; i++) {
+    const value = Math.min(1, Math.max(-1, chemicalField[i]));
+    data[i] = Math.round((value + 1) * 32767.5);
+  }
+  return { width, height: height * (channels + 1), data, channels: 1 };
+}
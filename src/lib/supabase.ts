@@ -1,10 +1,17 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+/**
+ * The backend is optional: without the environment variables the app runs
+ * with local storage only and this is null.
+ */
+export const supabase: SupabaseClient | null = supabaseUrl && supabaseKey
+  ? createClient(supabaseUrl, supabaseKey)
+  : null;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
\ No newline at end of file
+export function requireSupabase(): SupabaseClient {
+  if (!supabase) throw new Error('No backend is configured');
+  return supabase;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/** Longest side of a preset thumbnail, in pixels. */
+export const THUMBNAIL_SIZE = 320;
+
+/**
+ * A small JPEG data URL of the canvas, scaled to fit `THUMBNAIL_SIZE`. Small
+ * enough to store next to a preset in the database or in localStorage.
+ */
+export function captureThumbnail(source: HTMLCanvasElement, background: string): string {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha, so fill in what shows behind the canvas
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
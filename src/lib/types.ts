@@ -1,3 +1,20 @@
+export type BoundaryMode = 'wrap' | 'reflect' | 'absorb' | 'wall';
+
+/** Per-species settings; the top-level params describe the first species. */
+export type SpeciesParams = Pick<
+  SimulationParams,
+  | 'particleCount'
+  | 'moveSpeed'
+  | 'turnSpeed'
+  | 'sensorAngle'
+  | 'sensorDistance'
+  | 'chemicalDepositRate'
+  | 'moldColor'
+  | 'fieldColor'
+>;
+
+export const MAX_SPECIES = 4;
+
 export interface SimulationParams {
   particleCount: number;
   moveSpeed: number;
@@ -18,23 +35,142 @@ export interface SimulationParams {
   isPaused: boolean;
   stickingProbability: number;
   releaseProbability: number;
+  /** Steps after which a bond's release chance has halved; 0 keeps it constant. */
+  releaseAgeHalfLife: number;
+  /** Fraction by which each stuck neighbour lowers the release chance; 0 ignores neighbours. */
+  releaseNeighborFactor: number;
+  seed: number;
+  boundaryMode: BoundaryMode;
+  wallColor: string;
+  /** Color for negative (repellent) field values. */
+  repellentColor: string;
+  /** Species after the first; each deposits into its own field channel. */
+  species: SpeciesParams[];
+  /**
+   * `interactions[a][b]` weighs how species a responds to species b's trail:
+   * positive attracts, negative repels. Missing entries default to 1 for a
+   * species' own trail and 0 otherwise.
+   */
+  interactions: number[][];
 }
 
+/** The params as saved in presets, files and links: without transient UI state like `isPaused`. */
+export type StoredParams = Omit<SimulationParams, 'isPaused'>;
+
+export type Tool = 'attract' | 'erase' | 'pin' | 'wall' | 'select';
+
+/** `disc` places a source per brush step; `stroke` turns a whole drag into one polyline source. */
+export type BrushMode = 'disc' | 'stroke';
+
 export interface FoodParams {
   size: number;
   strength: number;
   opacity: number;
   color: string;
+  brushMode: BrushMode;
+  /** New sources get a reservoir that particles drain. */
+  consumable: boolean;
+  capacity: number;
+  consumptionRate: number;
+  regrowTime: number;
+  /** Image food maps: brightness below this is ignored. */
+  mapThreshold: number;
+  /** Dark pixels become food instead of bright ones. */
+  mapInvert: boolean;
+  mapStrength: number;
 }
 
-export interface Particle {
+export interface FoodReservoir {
+  capacity: number;
+  level: number;
+  /** Amount each particle eats per step while on the source. */
+  consumptionRate: number;
+  /** Steps an empty source waits before refilling; 0 removes it instead. */
+  regrowTime: number;
+  emptySteps: number;
+}
+
+/** Edits to an existing source; moving a stroke shifts all of its points. */
+export type FoodSourceChanges = Partial<Pick<FoodSource, 'x' | 'y' | 'radius' | 'strength'>>;
+
+export type FoodReservoirSettings = Pick<FoodReservoir, 'capacity' | 'consumptionRate' | 'regrowTime'>;
+
+export interface FoodPoint {
   x: number;
   y: number;
-  angle: number;
-  speed: number;
-  vx?: number;
-  vy?: number;
-  isStuck?: boolean;
 }
 
-export type ChemicalField = Float32Array;
\ No newline at end of file
+export interface FoodSource {
+  id: string;
+  /** Center of a disc, or the first point of a stroke. */
+  x: number;
+  y: number;
+  /** Set on strokes: every cell within `radius` of the polyline is covered. */
+  points?: FoodPoint[];
+  radius: number;
+  strength: number;
+  /** Overlay styling, fixed when the source is created. */
+  color?: string;
+  opacity?: number;
+  /** Only set on consumable sources; they emit in proportion to the level. */
+  reservoir?: FoodReservoir;
+}
+
+export interface FoodSourceOptions {
+  id?: string;
+  points?: FoodPoint[];
+  color?: string;
+  opacity?: number;
+  reservoir?: FoodReservoirSettings;
+}
+
+/** A food source as shared: placement, look and reservoir settings, without id or fill level. */
+export interface SharedFoodSource extends Pick<FoodSource, 'x' | 'y' | 'radius' | 'strength'> {
+  options: Omit<FoodSourceOptions, 'id'>;
+}
+
+export const PARTICLE_STUCK = 1;
+/** Seeds placed with the pin tool; they stay stuck regardless of the release settings. */
+export const PARTICLE_PINNED = 2;
+
+/**
+ * Particle state stored as parallel typed arrays. Only the first `count`
+ * entries are live; the arrays may be longer to leave room for growth.
+ */
+export interface ParticleBuffers {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  angle: Float32Array;
+  flags: Uint8Array;
+  /** Steps since the particle last stuck or was released, saturating at 65535. */
+  age: Uint16Array;
+  species: Uint8Array;
+}
+
+/**
+ * One `width * height` plane per species, stored back to back, followed by
+ * one plane of food that every species senses alike.
+ */
+export type ChemicalField = Float32Array;
+
+/**
+ * Everything needed to resume a run exactly where it was captured. Particle
+ * arrays hold exactly `particles.count` entries.
+ */
+export interface EngineSnapshot {
+  width: number;
+  height: number;
+  /** Steps simulated since the run started. */
+  step: number;
+  randomState: number;
+  params: SimulationParams;
+  channels: number;
+  chemicalField: ChemicalField;
+  particles: ParticleBuffers;
+  foodSources: FoodSource[];
+  obstacles: Uint8Array;
+  foodMap: Float32Array | null;
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { SimulationParams, FoodSource, FoodSourceOptions, FoodSourceChanges, EngineSnapshot } from './types';
+
+/** Floats per particle in a frame's particle buffer: x, y, flags, species. */
+export const PARTICLE_STRIDE = 4;
+
+export type WorkerRequest =
+  | { type: 'init'; width: number; height: number; params: SimulationParams }
+  | { type: 'updateParams'; params: SimulationParams }
+  | { type: 'addFoodSource'; x: number; y: number; radius: number; strength: number; options?: FoodSourceOptions }
+  | { type: 'removeFoodSourcesNear'; x: number; y: number; radius: number }
+  | { type: 'removeFoodSource'; id: string }
+  | { type: 'updateFoodSource'; id: string; changes: FoodSourceChanges }
+  | { type: 'extendFoodStroke'; id: string; x: number; y: number }
+  | { type: 'clearFoodSources' }
+  | { type: 'setFoodMap'; map: Float32Array | null }
+  | { type: 'spawnStickyParticle'; x: number; y: number }
+  | { type: 'paintObstacle'; x: number; y: number; radius: number }
+  | { type: 'eraseObstacles'; x: number; y: number; radius: number }
+  | { type: 'clearObstacles' }
+  | { type: 'restartParticles'; params?: SimulationParams }
+  | { type: 'captureSnapshot'; requestId: number }
+  // Restarts the engine at the snapshot's size if it differs from the current one
+  | { type: 'restoreSnapshot'; snapshot: EngineSnapshot }
+  // Advances the simulation `steps` times (once by default, none while paused)
+  // and asks for a frame. The buffers of the previously rendered frame are
+  // handed back so they can be reused.
+  | { type: 'step'; steps?: number; recycledField?: Float32Array; recycledParticles?: Float32Array };
+
+export interface SimulationFrame {
+  width: number;
+  height: number;
+  /** `channels` planes of `width * height`, one per species, then the food plane. */
+  chemicalField: Float32Array;
+  channels: number;
+  /** `particleCount * PARTICLE_STRIDE` floats; the buffer may be larger. */
+  particles: Float32Array;
+  particleCount: number;
+  /** Obstacle mask (1 = wall), only sent when it changed since the last frame. */
+  obstacles: Uint8Array | null;
+  foodSources: FoodSource[];
+}
+
+export type WorkerResponse =
+  | { type: 'frame'; frame: SimulationFrame }
+  | { type: 'snapshot'; requestId: number; snapshot: EngineSnapshot }
+  // A request threw; `requestId` is set when it was a snapshot capture
+  | { type: 'error'; request: WorkerRequest['type']; message: string; requestId?: number };
@@ -0,0 +1,33 @@
+/*
+  # Snapshot storage
+
+  1. Storage
+    - Private `snapshots` bucket for compressed simulation snapshots
+    - Objects live under a folder named after the owner's user id:
+      `<user id>/<timestamp>-<name>.fcsnap`
+
+  2. Security
+    - Users can list, read, upload and delete only the objects in their own folder
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('snapshots', 'snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own snapshots"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own snapshots"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own snapshots"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,113 @@
+/*
+  # Public preset gallery
+
+  1. Changes to `simulation_settings`
+    - `is_public` (boolean, listed in the community gallery)
+    - `description` (text)
+    - `thumbnail` (text, small JPEG data URL captured from the canvas)
+    - `likes_count` (integer, maintained from `setting_likes`)
+    - `forked_from` (uuid, the public preset this one was copied from)
+
+  2. New Tables
+    - `setting_likes`
+      - `setting_id` (uuid, references simulation_settings)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Anyone, signed in or not, can read public settings; writes stay owner-only
+    - `likes_count` can only change through likes, not through owner updates
+    - Users can see, add and remove only their own likes, and only on public settings
+*/
+
+ALTER TABLE simulation_settings
+  ADD COLUMN IF NOT EXISTS is_public boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS description text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS thumbnail text,
+  ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS forked_from uuid REFERENCES simulation_settings(id) ON DELETE SET NULL;
+
+ALTER TABLE simulation_settings
+  ADD CONSTRAINT simulation_settings_thumbnail_size CHECK (thumbnail IS NULL OR length(thumbnail) <= 200000);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_public_popular_idx
+  ON simulation_settings (likes_count DESC, created_at DESC)
+  WHERE is_public;
+
+CREATE INDEX IF NOT EXISTS simulation_settings_public_recent_idx
+  ON simulation_settings (created_at DESC)
+  WHERE is_public;
+
+CREATE POLICY "Anyone can read public settings"
+  ON simulation_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_public);
+
+CREATE TABLE IF NOT EXISTS setting_likes (
+  setting_id uuid NOT NULL REFERENCES simulation_settings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (setting_id, user_id)
+);
+
+ALTER TABLE setting_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own likes"
+  ON setting_likes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can like public settings"
+  ON setting_likes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM simulation_settings s WHERE s.id = setting_id AND s.is_public)
+  );
+
+CREATE POLICY "Users can remove their own likes"
+  ON setting_likes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep likes_count in step with setting_likes. Runs as the owner so a like
+-- can update a row the liker doesn't own.
+CREATE OR REPLACE FUNCTION public.update_setting_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE simulation_settings SET likes_count = likes_count + 1 WHERE id = NEW.setting_id;
+  ELSE
+    UPDATE simulation_settings SET likes_count = likes_count - 1 WHERE id = OLD.setting_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_setting_like_changed
+  AFTER INSERT OR DELETE ON setting_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_setting_likes_count();
+
+-- Owners may update their settings, but not their like count: outside the
+-- trigger above (which runs one level deeper) the count is left unchanged.
+CREATE OR REPLACE FUNCTION public.protect_setting_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.likes_count := 0;
+  ELSIF pg_trigger_depth() = 1 THEN
+    NEW.likes_count := OLD.likes_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_likes_count
+  BEFORE INSERT OR UPDATE ON simulation_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_setting_likes_count();
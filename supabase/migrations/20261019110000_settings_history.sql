@@ -0,0 +1,64 @@
+/*
+  # Saved settings history
+
+  1. Changes to `simulation_settings`
+    - `updated_at` (timestamp, when the params were last overwritten)
+
+  2. New Tables
+    - `simulation_settings_versions`
+      - `id` (uuid, primary key)
+      - `setting_id` (uuid, references simulation_settings)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text, name of the preset at the time)
+      - `params` (jsonb)
+      - `food_params` (jsonb)
+      - `saved_at` (timestamp, when this version was saved)
+
+  3. Security
+    - Enable RLS on `simulation_settings_versions`
+    - Users can read the history of their own settings
+    - Versions are only written by the trigger that records them, never directly
+*/
+
+ALTER TABLE simulation_settings
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS simulation_settings_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  setting_id uuid NOT NULL REFERENCES simulation_settings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  params jsonb NOT NULL,
+  food_params jsonb NOT NULL,
+  saved_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_versions_setting_idx
+  ON simulation_settings_versions (setting_id, saved_at DESC);
+
+ALTER TABLE simulation_settings_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read the history of their own settings"
+  ON simulation_settings_versions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Before params are overwritten, keep the old ones as a version. Renaming
+-- alone doesn't make a new version.
+CREATE OR REPLACE FUNCTION public.record_setting_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.params IS DISTINCT FROM OLD.params OR NEW.food_params IS DISTINCT FROM OLD.food_params THEN
+    INSERT INTO simulation_settings_versions (setting_id, user_id, name, params, food_params, saved_at)
+    VALUES (OLD.id, OLD.user_id, OLD.name, OLD.params, OLD.food_params, COALESCE(OLD.updated_at, OLD.created_at));
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_setting_version
+  BEFORE UPDATE ON simulation_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_setting_version();
@@ -0,0 +1,38 @@
+/*
+  # Organizing saved settings
+
+  1. Changes to `simulation_settings`
+    - `tags` (text[], lowercased tags)
+    - `folder` (text, folder the preset is filed in, null for none)
+    - `last_used_at` (timestamp, when the preset was last loaded)
+    - `search` (tsvector, generated from name and description for full-text search)
+
+  2. Indexes
+    - GIN indexes on `tags` and `search`
+    - Per-user indexes for listing by folder, name and last use
+
+  3. Security
+    - No changes: the existing owner-only update policy covers the new columns
+*/
+
+ALTER TABLE simulation_settings
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS folder text,
+  ADD COLUMN IF NOT EXISTS last_used_at timestamptz,
+  ADD COLUMN IF NOT EXISTS search tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', name || ' ' || description)) STORED;
+
+CREATE INDEX IF NOT EXISTS simulation_settings_tags_idx
+  ON simulation_settings USING GIN (tags);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_search_idx
+  ON simulation_settings USING GIN (search);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_user_folder_idx
+  ON simulation_settings (user_id, folder);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_user_name_idx
+  ON simulation_settings (user_id, name);
+
+CREATE INDEX IF NOT EXISTS simulation_settings_user_last_used_idx
+  ON simulation_settings (user_id, last_used_at DESC NULLS LAST);
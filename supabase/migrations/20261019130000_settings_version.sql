@@ -0,0 +1,28 @@
+/*
+  # Settings format version
+
+  1. Changes to `simulation_settings` and `simulation_settings_versions`
+    - `settings_version` (integer, format of `params`; rows saved before this
+      migration are version 1)
+
+  2. Functions
+    - `record_setting_version` keeps the format version of the old params
+*/
+
+ALTER TABLE simulation_settings
+  ADD COLUMN IF NOT EXISTS settings_version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE simulation_settings_versions
+  ADD COLUMN IF NOT EXISTS settings_version integer NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.record_setting_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.params IS DISTINCT FROM OLD.params OR NEW.food_params IS DISTINCT FROM OLD.food_params THEN
+    INSERT INTO simulation_settings_versions (setting_id, user_id, name, params, food_params, settings_version, saved_at)
+    VALUES (OLD.id, OLD.user_id, OLD.name, OLD.params, OLD.food_params, OLD.settings_version, COALESCE(OLD.updated_at, OLD.created_at));
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;